@@ -0,0 +1,64 @@
+#!/bin/bash
+
+# setup-pubsub-emulator.sh - ローカルPub/Subエミュレーター設定スクリプト
+# 請求ジョブ・承認判断用のトピックと、ローカルのchargeWorker / finalizeBilling / approvalWorkerへのpushサブスクリプションを作成します
+#
+# 事前に以下を別ターミナルで起動してください:
+#   gcloud beta emulators pubsub start --project=growth-force-project --host-port=localhost:8085
+#   PUBSUB_EMULATOR_HOST=localhost:8085 npm run dev:worker      # chargeWorker (port 8081)
+#   PUBSUB_EMULATOR_HOST=localhost:8085 npm run dev:finalizer   # finalizeBilling (port 8082)
+#   PUBSUB_EMULATOR_HOST=localhost:8085 npm run dev:approval-worker   # approvalWorker (port 8083)
+
+set -e
+
+# Colors for output
+RED='\033[0;31m'
+GREEN='\033[0;32m'
+YELLOW='\033[1;33m'
+NC='\033[0m' # No Color
+
+# Configuration
+PROJECT_ID=${GOOGLE_CLOUD_PROJECT:-"growth-force-project"}
+EMULATOR_HOST=${PUBSUB_EMULATOR_HOST:-"localhost:8085"}
+CHARGE_JOBS_TOPIC=${CHARGE_JOBS_TOPIC:-"billing-charge-jobs"}
+CHARGE_COMPLETIONS_TOPIC=${CHARGE_COMPLETIONS_TOPIC:-"billing-charge-completions"}
+APPROVAL_DECISIONS_TOPIC=${APPROVAL_DECISIONS_TOPIC:-"billing-approval-decisions"}
+WORKER_ENDPOINT=${WORKER_ENDPOINT:-"http://localhost:8081"}
+FINALIZER_ENDPOINT=${FINALIZER_ENDPOINT:-"http://localhost:8082"}
+APPROVAL_WORKER_ENDPOINT=${APPROVAL_WORKER_ENDPOINT:-"http://localhost:8083"}
+
+echo -e "${GREEN}Pub/Subエミュレーター設定スクリプトを開始します${NC}"
+
+# Check if the emulator is running
+if ! curl -s "http://$EMULATOR_HOST" > /dev/null; then
+    echo -e "${RED}Error: Pub/Subエミュレーターに接続できません: $EMULATOR_HOST${NC}"
+    echo "gcloud beta emulators pubsub start --project=$PROJECT_ID --host-port=$EMULATOR_HOST を実行してください"
+    exit 1
+fi
+
+create_topic() {
+    local topic=$1
+    echo -e "${YELLOW}トピックを作成中: $topic${NC}"
+    curl -s -X PUT "http://$EMULATOR_HOST/v1/projects/$PROJECT_ID/topics/$topic" > /dev/null
+}
+
+create_push_subscription() {
+    local subscription=$1
+    local topic=$2
+    local endpoint=$3
+    echo -e "${YELLOW}pushサブスクリプションを作成中: $subscription -> $endpoint${NC}"
+    curl -s -X PUT "http://$EMULATOR_HOST/v1/projects/$PROJECT_ID/subscriptions/$subscription" \
+        -H "Content-Type: application/json" \
+        -d "{\"topic\": \"projects/$PROJECT_ID/topics/$topic\", \"pushConfig\": {\"pushEndpoint\": \"$endpoint\"}, \"ackDeadlineSeconds\": 600}" > /dev/null
+}
+
+create_topic "$CHARGE_JOBS_TOPIC"
+create_topic "$CHARGE_COMPLETIONS_TOPIC"
+create_topic "$APPROVAL_DECISIONS_TOPIC"
+create_push_subscription "$CHARGE_JOBS_TOPIC-worker" "$CHARGE_JOBS_TOPIC" "$WORKER_ENDPOINT"
+create_push_subscription "$CHARGE_COMPLETIONS_TOPIC-finalizer" "$CHARGE_COMPLETIONS_TOPIC" "$FINALIZER_ENDPOINT"
+create_push_subscription "$APPROVAL_DECISIONS_TOPIC-approval-worker" "$APPROVAL_DECISIONS_TOPIC" "$APPROVAL_WORKER_ENDPOINT"
+
+echo -e "${GREEN}設定が完了しました${NC}"
+echo "processBillingを以下の環境変数で起動すると、請求ジョブがエミュレーター経由でワーカーに配信されます:"
+echo "  PUBSUB_EMULATOR_HOST=$EMULATOR_HOST CHARGE_FANOUT=true npm run dev"
@@ -0,0 +1,64 @@
+import * as locales from './locales';
+import { ja } from './locales';
+
+export type MessageKey = keyof typeof ja;
+export type MessageCatalog = Record<MessageKey, string>;
+export type Locale = keyof typeof locales;
+
+export const DEFAULT_LOCALE: Locale = 'ja';
+
+// Every catalog exported from locales/, checked against the keys of the Japanese one
+const catalogs: Record<Locale, MessageCatalog> = locales;
+
+export const LOCALES = Object.keys(catalogs) as Locale[];
+
+const isLocale = (locale: string): locale is Locale => (LOCALES as string[]).includes(locale);
+
+/**
+ * The catalog for a locale. Unknown locales fall back to Japanese; a typo in the configuration
+ * should not stop a report.
+ */
+export function loadCatalog(locale: string): MessageCatalog {
+  if (isLocale(locale)) {
+    return catalogs[locale];
+  }
+
+  console.warn(`No message catalog for locale "${locale}", using "${DEFAULT_LOCALE}"`);
+  return catalogs[DEFAULT_LOCALE];
+}
+
+/**
+ * Messages and number formatting for one locale. Placeholders are written as `{name}`.
+ */
+export class Translator {
+  readonly locale: string;
+  private catalog: MessageCatalog;
+
+  constructor(locale: string = DEFAULT_LOCALE) {
+    this.locale = locale;
+    this.catalog = loadCatalog(locale);
+  }
+
+  t(key: MessageKey, params: Record<string, string | number> = {}): string {
+    const template = this.catalog[key] ?? ja[key];
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      name in params ? String(params[name]) : placeholder
+    );
+  }
+
+  formatNumber(value: number): string {
+    return new Intl.NumberFormat(this.catalog['locale.intl']).format(value);
+  }
+
+  formatMoney(amount: number, currencyCode: string = 'USD', maximumFractionDigits?: number): string {
+    try {
+      return new Intl.NumberFormat(this.catalog['locale.intl'], {
+        style: 'currency',
+        currency: currencyCode,
+        ...(maximumFractionDigits !== undefined ? { maximumFractionDigits } : {}),
+      }).format(amount);
+    } catch {
+      return `${amount} ${currencyCode}`;
+    }
+  }
+}
@@ -0,0 +1,172 @@
+import type { MessageCatalog } from '..';
+
+const en: MessageCatalog = {
+  'locale.intl': 'en-US',
+
+  'common.unknown': 'Unknown',
+  'common.cancel': 'Cancel',
+  'common.range': '{start} – {end}',
+  'common.omitted': '_... {count} more omitted_',
+
+  'shopifyStatus.pending': 'Charge pending',
+  'shopifyStatus.success': 'Charged',
+  'shopifyStatus.failed': 'Charge failed',
+  'shopifyStatus.skipped': 'Charge skipped',
+  'shopifyStatus.already_charged': 'Already charged (skipped)',
+  'shopifyStatus.capped': 'Cap reached (partly unbilled)',
+  'shopifyStatus.held': 'Held (anomaly detected)',
+  'shopifyStatus.awaiting_approval': 'Awaiting approval',
+  'shopifyStatus.rejected': 'Rejected (not charged)',
+
+  'shopStatus.active': 'Active',
+  'shopStatus.uninstalled': 'Uninstalled',
+  'shopStatus.frozen': 'Frozen',
+  'shopStatus.closed': 'Closed',
+
+  'findingType.missing_in_shopify': 'No charge in Shopify',
+  'findingType.missing_in_bigquery': 'Unrecorded charge',
+  'findingType.amount_mismatch': 'Amount mismatch',
+
+  'errorCategory.transient': 'Transient error',
+  'errorCategory.auth': 'Authentication error',
+  'errorCategory.subscription_missing': 'No subscription',
+  'errorCategory.cap_exceeded': 'Cap exceeded',
+  'errorCategory.validation': 'Validation error',
+  'errorCategory.unknown': 'Unknown error',
+
+  'batch.header.error': '❌ Batch failed',
+  'batch.header.dryRun': '🧪 Dry run completed (nothing charged or saved)',
+  'batch.header.success': '✅ Batch completed',
+  'batch.label.status': 'Status',
+  'batch.status.success': 'Succeeded',
+  'batch.status.failure': 'Failed',
+  'batch.label.executedAt': 'Run at',
+  'batch.label.message': 'Message',
+  'batch.label.targetDate': 'Billing date',
+  'batch.label.outcome': 'Outcome',
+  'batch.outcome.skipped': '⏭️ Skipped',
+  'batch.outcome.executed': '✅ Processed',
+  'batch.label.shopStatus': 'Shop status',
+  'batch.inactiveShops': 'Not billed (uninstalled, frozen or closed): {count}',
+  'batch.shopStatusUnchecked': 'Not checked',
+  'batch.deferredShops': "*Deferred (billing date not over in the shop's timezone):* {count}",
+  'batch.duplicateSessions': '*Duplicate sessions (not used for billing):* {count}',
+  'batch.duplicateSession': '• *{shop}*: `{sessionId}` (using `{keptSessionId}`)',
+  'batch.label.skipReason': 'Skip reason',
+  'batch.label.activeSessions': 'Active sessions',
+  'batch.label.shopsWithPageViews': 'Shops with page views',
+  'batch.label.billingRecords': 'Billing records',
+  'batch.label.totalPageViews': 'Total page views',
+  'batch.label.totalAmount': 'Total amount',
+  'batch.chargeResults': '*Shopify charges:*\n✅ Succeeded: {success}\n❌ Failed: {failed}\n⏭️ Skipped: {skipped}\n🔁 Already charged: {alreadyCharged}\n🧢 Cap reached: {capped}',
+  'batch.label.failureCategories': 'Failures by category',
+  'batch.dispatchedJobs': '*Shopify charge jobs:*\n{count} dispatched to workers (run: `{runId}`)',
+  'batch.currentSummary': '*Billing date status (latest):*\n' +
+    'Shops: {shops} / Total page views: {pageViews} / Total amount: {amount}\n' +
+    '✅ Succeeded: {success}  ❌ Failed: {failed}  🧢 Cap reached: {capped}  ✋ Held: {held}  🖐 Awaiting approval: {awaitingApproval}  ⏳ Pending: {pending}',
+  'batch.held': '*✋ Charges held by anomaly detection:* {count}',
+  'batch.heldShop': '✋ *{shop}*: {pageViews} views / {amount}',
+  'batch.heldBaseline': ' (baseline {baseline} views)',
+  'batch.heldHint': '_Review, then charge (optionally with an adjusted amount) with /releaseHeldCharge_',
+  'batch.awaitingApproval': '*🖐 Charges awaiting approval:* {count} (approve, adjust or reject from the individual messages)',
+  'batch.label.cap': '🧢 Capped amount',
+  'batch.capReached': '🧢 *{shop}*: cap reached {used} / {cap} (unbilled: {unbilled})',
+  'batch.capApproaching': '⚠️ *{shop}*: {usage}% of cap {used} / {cap}',
+  'batch.label.errorDetails': '🔴 Error details',
+  'batch.label.stackTrace': '🔍 Stack trace',
+  'batch.label.shopResults': '📊 Results by shop',
+  'batch.shopUsage': '📊 {pageViews} views / {amount}',
+  'batch.carryOver': ' (includes {amount} carried over)',
+  'batch.bigQuerySaved': 'BigQuery saved',
+  'batch.bigQueryFailed': 'BigQuery save failed',
+  'batch.bigQueryError': '🔴 BigQuery error: {error}',
+  'batch.shopifyError': '🔴 Shopify error: {category}{error}',
+  'batch.moreShops': '_... {count} more shops in the CSV in the thread_',
+  'batch.label.backfillRange': 'Backfill range',
+  'batch.label.missingDates': 'Unbilled dates',
+  'batch.backfillDate': '{records} records / {pageViews} views / {amount} (succeeded: {success} / failed: {failed})',
+  'batch.label.dateResults': '📅 Results by date',
+  'batch.label.runType': 'Run type',
+  'batch.runType.scheduled': 'Scheduled',
+  'batch.runType.manual': 'Manual',
+  'batch.label.testDate': 'Test date',
+  'batch.label.error': 'Error details',
+  'batch.text.success': 'Billing batch completed',
+  'batch.text.failure': 'Billing batch failed',
+  'batch.text.continued': '{text} (continued)',
+  'batch.failureBreakdown': 'Failed charges by category',
+  'batch.bigQueryFailureGroup': 'BigQuery save failed',
+  'batch.failureGroup': '*❌ {group} ({count})*',
+  'batch.resultsCsvTitle': 'Results by shop {date} ({count})',
+
+  'approval.text': 'Charge awaiting approval: {shop} {amount}',
+  'approval.title': '*🖐 Charge awaiting approval*',
+  'approval.amount': 'Amount: *{amount}* (approval threshold {threshold})',
+  'approval.pageViews': 'Page views: {pageViews}',
+  'approval.approve': 'Approve',
+  'approval.approveConfirmTitle': 'Approve charge',
+  'approval.approveConfirmText': '{shop} will be charged {amount}.',
+  'approval.charge': 'Charge',
+  'approval.adjust': 'Adjust amount',
+  'approval.reject': 'Reject',
+  'approval.rejectConfirmTitle': 'Reject charge',
+  'approval.rejectConfirmText': '{shop} will not be charged for {date}.',
+  'approval.rejectConfirm': 'Reject',
+  'approval.adjustTitle': 'Adjust charge',
+  'approval.adjustLabel': 'Amount to charge {shop} for {date} (USD)',
+  'approval.adjustPlaceholder': 'e.g. 12.50 (0 to skip the charge)',
+  'approval.invalidAmount': 'Enter an amount (USD) of 0 or more',
+  'approval.updatedText': 'Charge approval processed: {shop}',
+  'approval.decidedBy': 'Handled by: {user}',
+  'approval.processing': '⏳ Processing…',
+
+  'reconciliation.header.clean': '✅ Reconciliation completed (no discrepancies)',
+  'reconciliation.header.findings': '⚠️ Reconciliation found discrepancies',
+  'reconciliation.label.period': 'Period',
+  'reconciliation.label.shopsChecked': 'Shops checked',
+  'reconciliation.label.recordsCompared': 'Shopify records',
+  'reconciliation.label.findings': 'Discrepancies',
+  'reconciliation.findingCount': '{type}: {count}',
+  'reconciliation.recorded': 'recorded {amount}',
+  'reconciliation.shopify': 'Shopify {amount}',
+  'reconciliation.unknownDate': 'unknown date',
+  'reconciliation.more': '...{count} more',
+  'reconciliation.label.details': 'Details',
+  'reconciliation.label.shopErrors': 'Shops that could not be reconciled',
+  'reconciliation.runId': 'Run ID: {runId}',
+  'reconciliation.text.clean': 'Reconciliation completed',
+  'reconciliation.text.findings': 'Reconciliation found discrepancies',
+
+  'digest.header': '📋 Failed charges by shop {date} ({count})',
+  'digest.text': 'Failed charges by shop {date}',
+
+  'email.batch.subject.success': '[Billing batch] Completed {target}',
+  'email.batch.subject.failure': '[Billing batch] Error {target}',
+  'email.batch.status': 'Status: {status}',
+  'email.batch.status.success': 'Succeeded',
+  'email.batch.status.failure': 'Failed',
+  'email.batch.timestamp': 'Run at: {timestamp}',
+  'email.batch.message': 'Message: {message}',
+  'email.batch.error': 'Error: {error}',
+  'email.batch.targetDate': 'Billing date: {date}',
+  'email.batch.skipped': 'Skipped: {reason}',
+  'email.batch.total': 'Total billed: {amount} ({records} records / {pageViews} page views)',
+  'email.batch.shopFailed': 'Failed {shop} {amount} [{category}] {error}',
+  'email.batch.shopHeld': 'Held {shop} {amount} {reason}',
+  'email.batch.shopAwaitingApproval': 'Awaiting approval {shop} {amount}',
+  'email.reconciliation.subject': '[Billing reconciliation] {count} discrepancies {range}',
+  'email.reconciliation.period': 'Period: {range}',
+  'email.reconciliation.shopsChecked': 'Shops checked: {count}',
+  'email.reconciliation.findings': 'Discrepancies: {count}',
+  'email.reconciliation.unknownDate': 'unknown date',
+  'email.reconciliation.expected': 'recorded {amount}',
+  'email.reconciliation.actual': 'Shopify {amount}',
+  'email.reconciliation.shopError': 'Could not reconcile {shop}: {error}',
+  'email.reconciliation.runId': 'Run ID: {runId}',
+  'email.digest.subject': '[Billing failures] {date} ({count})',
+  'email.approval.subject': '[Billing approval] {count} awaiting approval {dates}',
+  'email.approval.line': '{shop} {date} {amount} (approval threshold {threshold})',
+  'email.approval.instructions': 'Approve or reject them from the approval message in Slack or with releaseHeldCharge.',
+};
+
+export default en;
@@ -0,0 +1,3 @@
+// Every message catalog, keyed by locale. Adding a locale means adding its catalog file and exporting it here.
+export { default as ja } from './ja';
+export { default as en } from './en';
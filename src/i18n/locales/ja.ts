@@ -0,0 +1,171 @@
+// Japanese, the default locale. Every other catalog must define the same keys.
+const ja = {
+  'locale.intl': 'ja-JP',
+
+  'common.unknown': '不明',
+  'common.cancel': 'キャンセル',
+  'common.range': '{start} 〜 {end}',
+  'common.omitted': '_... 他 {count} 件は省略_',
+
+  'shopifyStatus.pending': '請求待機',
+  'shopifyStatus.success': '請求成功',
+  'shopifyStatus.failed': '請求失敗',
+  'shopifyStatus.skipped': '請求スキップ',
+  'shopifyStatus.already_charged': '請求済み（スキップ）',
+  'shopifyStatus.capped': '上限到達（一部未請求）',
+  'shopifyStatus.held': '保留（異常検知）',
+  'shopifyStatus.awaiting_approval': '承認待ち',
+  'shopifyStatus.rejected': '却下（請求なし）',
+
+  'shopStatus.active': '有効',
+  'shopStatus.uninstalled': 'アンインストール',
+  'shopStatus.frozen': '凍結',
+  'shopStatus.closed': '閉鎖',
+
+  'findingType.missing_in_shopify': 'Shopifyに請求なし',
+  'findingType.missing_in_bigquery': '記録なしの請求',
+  'findingType.amount_mismatch': '金額不一致',
+
+  'errorCategory.transient': '一時的なエラー',
+  'errorCategory.auth': '認証エラー',
+  'errorCategory.subscription_missing': 'サブスクリプションなし',
+  'errorCategory.cap_exceeded': '上限超過',
+  'errorCategory.validation': '入力エラー',
+  'errorCategory.unknown': '不明なエラー',
+
+  'batch.header.error': '❌ バッチ処理エラー',
+  'batch.header.dryRun': '🧪 ドライラン完了（請求・保存なし）',
+  'batch.header.success': '✅ バッチ処理完了',
+  'batch.label.status': 'ステータス',
+  'batch.status.success': '成功',
+  'batch.status.failure': '失敗',
+  'batch.label.executedAt': '実行時刻',
+  'batch.label.message': 'メッセージ',
+  'batch.label.targetDate': '処理対象日',
+  'batch.label.outcome': '処理結果',
+  'batch.outcome.skipped': '⏭️ スキップ',
+  'batch.outcome.executed': '✅ 実行',
+  'batch.label.shopStatus': 'ショップステータス',
+  'batch.inactiveShops': '請求対象外（アンインストール・凍結・閉鎖）: {count}',
+  'batch.shopStatusUnchecked': '未確認',
+  'batch.deferredShops': '*請求日が未終了のため繰り延べ（ショップのタイムゾーン）:* {count}件',
+  'batch.duplicateSessions': '*重複セッション（請求に未使用）:* {count}件',
+  'batch.duplicateSession': '• *{shop}*: `{sessionId}` (使用: `{keptSessionId}`)',
+  'batch.label.skipReason': 'スキップ理由',
+  'batch.label.activeSessions': 'アクティブセッション数',
+  'batch.label.shopsWithPageViews': 'ページビューのあるショップ数',
+  'batch.label.billingRecords': '請求レコード数',
+  'batch.label.totalPageViews': '総ページビュー数',
+  'batch.label.totalAmount': '総請求金額',
+  'batch.chargeResults': '*Shopify請求結果:*\n✅ 成功: {success}\n❌ 失敗: {failed}\n⏭️ スキップ: {skipped}\n🔁 請求済み: {alreadyCharged}\n🧢 上限到達: {capped}',
+  'batch.label.failureCategories': '失敗の分類',
+  'batch.dispatchedJobs': '*Shopify請求ジョブ:*\n{count}件をワーカーに配信（run: `{runId}`）',
+  'batch.currentSummary': '*請求日の確定状況（最新ステータス）:*\n' +
+    'ショップ数: {shops} / 総ページビュー数: {pageViews} / 総請求金額: {amount}\n' +
+    '✅ 成功: {success}  ❌ 失敗: {failed}  🧢 上限到達: {capped}  ✋ 保留: {held}  🖐 承認待ち: {awaitingApproval}  ⏳ 未処理: {pending}',
+  'batch.held': '*✋ 異常検知により請求を保留:* {count}件',
+  'batch.heldShop': '✋ *{shop}*: {pageViews} views / {amount}',
+  'batch.heldBaseline': ' (基準値 {baseline} views)',
+  'batch.heldHint': '_確認後、/releaseHeldCharge で請求（金額調整も可）してください_',
+  'batch.awaitingApproval': '*🖐 承認待ちの請求:* {count}件（個別のメッセージから承認・調整・却下してください）',
+  'batch.label.cap': '🧢 利用上限（cappedAmount）',
+  'batch.capReached': '🧢 *{shop}*: 上限到達 {used} / {cap} (未請求: {unbilled})',
+  'batch.capApproaching': '⚠️ *{shop}*: 上限の{usage}% {used} / {cap}',
+  'batch.label.errorDetails': '🔴 エラー詳細',
+  'batch.label.stackTrace': '🔍 スタックトレース',
+  'batch.label.shopResults': '📊 ショップ別処理結果',
+  'batch.shopUsage': '📊 {pageViews} views / {amount}',
+  'batch.carryOver': ' (繰越 {amount} 含む)',
+  'batch.bigQuerySaved': 'BigQuery 保存成功',
+  'batch.bigQueryFailed': 'BigQuery 保存失敗',
+  'batch.bigQueryError': '🔴 BigQuery エラー: {error}',
+  'batch.shopifyError': '🔴 Shopify エラー: {category}{error}',
+  'batch.moreShops': '_... 他 {count} ショップの結果はスレッドのCSVを参照_',
+  'batch.label.backfillRange': 'バックフィル期間',
+  'batch.label.missingDates': '未請求日数',
+  'batch.backfillDate': '{records} レコード / {pageViews} views / {amount} (成功: {success} / 失敗: {failed})',
+  'batch.label.dateResults': '📅 日付別処理結果',
+  'batch.label.runType': '実行タイプ',
+  'batch.runType.scheduled': 'スケジュール実行',
+  'batch.runType.manual': '手動実行',
+  'batch.label.testDate': 'テスト対象日',
+  'batch.label.error': 'エラー詳細',
+  'batch.text.success': 'バッチ処理が完了しました',
+  'batch.text.failure': 'バッチ処理でエラーが発生しました',
+  'batch.text.continued': '{text}（続き）',
+  'batch.failureBreakdown': '請求失敗の内訳',
+  'batch.bigQueryFailureGroup': 'BigQuery保存失敗',
+  'batch.failureGroup': '*❌ {group}（{count}件）*',
+  'batch.resultsCsvTitle': 'ショップ別処理結果 {date}（{count}件）',
+
+  'approval.text': '承認待ちの請求: {shop} {amount}',
+  'approval.title': '*🖐 承認待ちの請求*',
+  'approval.amount': '請求額: *{amount}*（承認閾値 {threshold}）',
+  'approval.pageViews': 'ページビュー: {pageViews}',
+  'approval.approve': '承認',
+  'approval.approveConfirmTitle': '請求の承認',
+  'approval.approveConfirmText': '{shop} に {amount} を請求します。',
+  'approval.charge': '請求する',
+  'approval.adjust': '金額を調整',
+  'approval.reject': '却下',
+  'approval.rejectConfirmTitle': '請求の却下',
+  'approval.rejectConfirmText': '{shop} の {date} 分は請求しません。',
+  'approval.rejectConfirm': '却下する',
+  'approval.adjustTitle': '請求額の調整',
+  'approval.adjustLabel': '{shop} ({date}) の請求額（USD）',
+  'approval.adjustPlaceholder': '例: 12.50（0で請求なし）',
+  'approval.invalidAmount': '0以上の金額（USD）を入力してください',
+  'approval.updatedText': '請求の承認処理: {shop}',
+  'approval.decidedBy': '処理者: {user}',
+  'approval.processing': '⏳ 処理中です…',
+
+  'reconciliation.header.clean': '✅ 請求照合完了（差異なし）',
+  'reconciliation.header.findings': '⚠️ 請求照合で差異を検出',
+  'reconciliation.label.period': '対象期間',
+  'reconciliation.label.shopsChecked': '照合ショップ数',
+  'reconciliation.label.recordsCompared': 'Shopify側レコード数',
+  'reconciliation.label.findings': '差異',
+  'reconciliation.findingCount': '{type}: {count}件',
+  'reconciliation.recorded': '記録 {amount}',
+  'reconciliation.shopify': 'Shopify {amount}',
+  'reconciliation.unknownDate': '日付不明',
+  'reconciliation.more': '...他 {count}件',
+  'reconciliation.label.details': '差異の詳細',
+  'reconciliation.label.shopErrors': '照合できなかったショップ',
+  'reconciliation.runId': '実行ID: {runId}',
+  'reconciliation.text.clean': '請求照合が完了しました',
+  'reconciliation.text.findings': '請求照合で差異が見つかりました',
+
+  'digest.header': '📋 請求失敗ショップ一覧 {date}（{count}件）',
+  'digest.text': '請求失敗ショップ一覧 {date}',
+
+  'email.batch.subject.success': '[請求バッチ] 完了 {target}',
+  'email.batch.subject.failure': '[請求バッチ] エラー {target}',
+  'email.batch.status': 'ステータス: {status}',
+  'email.batch.status.success': '成功',
+  'email.batch.status.failure': '失敗',
+  'email.batch.timestamp': '実行時刻: {timestamp}',
+  'email.batch.message': 'メッセージ: {message}',
+  'email.batch.error': 'エラー: {error}',
+  'email.batch.targetDate': '対象日: {date}',
+  'email.batch.skipped': 'スキップ: {reason}',
+  'email.batch.total': '請求額合計: {amount}（{records}件 / PV {pageViews}）',
+  'email.batch.shopFailed': '失敗 {shop} {amount} [{category}] {error}',
+  'email.batch.shopHeld': '保留 {shop} {amount} {reason}',
+  'email.batch.shopAwaitingApproval': '承認待ち {shop} {amount}',
+  'email.reconciliation.subject': '[請求照合] 差異 {count}件 {range}',
+  'email.reconciliation.period': '対象期間: {range}',
+  'email.reconciliation.shopsChecked': '照合ショップ数: {count}',
+  'email.reconciliation.findings': '差異: {count}件',
+  'email.reconciliation.unknownDate': '日付不明',
+  'email.reconciliation.expected': '記録 {amount}',
+  'email.reconciliation.actual': 'Shopify {amount}',
+  'email.reconciliation.shopError': '照合不可 {shop}: {error}',
+  'email.reconciliation.runId': '実行ID: {runId}',
+  'email.digest.subject': '[請求失敗] {date} {count}件',
+  'email.approval.subject': '[請求承認] 承認待ち {count}件 {dates}',
+  'email.approval.line': '{shop} {date} {amount}（承認閾値 {threshold}）',
+  'email.approval.instructions': 'Slack の承認メッセージ、または releaseHeldCharge で承認・却下してください。',
+};
+
+export default ja;
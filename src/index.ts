@@ -1,6 +1,15 @@
-import { http, HttpFunction } from '@google-cloud/functions-framework';
+import { http, cloudEvent, CloudEventFunction, HttpFunction, Request, Response } from '@google-cloud/functions-framework';
 import { BillingService } from './services/billing';
 import { SlackService } from './services/slack';
+import { NotificationRouter } from './services/notifier';
+import { ReconciliationService } from './services/reconciliation';
+import { StatementService, formatStatementCsv } from './services/statement';
+import { AdminApiService } from './services/adminApi';
+import { PubSubService, decodeMessage } from './services/pubsub';
+import { verifySlackSignature, parseInteraction, SlackInteractionPayload, ApprovalDecision } from './services/slackInteractions';
+import { ChargeJob, ChargeCompletion, DailyBillingResult } from './types/billing';
+import { isValidDate, isValidMonth } from './utils/date';
+import { isValidBearerToken } from './utils/auth';
 
 // Ensure environment variables are set with defaults for Cloud Functions
 process.env.SLACK_BOT_TOKEN = process.env.SLACK_BOT_TOKEN || 'dummy-token-for-startup';
@@ -8,6 +17,33 @@ process.env.SLACK_CHANNEL_IDS = process.env.SLACK_CHANNEL_IDS || process.env.SLA
 
 const billingService = new BillingService();
 const slackService = new SlackService();
+const notificationRouter = new NotificationRouter();
+const reconciliationService = new ReconciliationService();
+const statementService = new StatementService();
+const adminApiService = new AdminApiService();
+const pubSubService = new PubSubService();
+
+// Parameters may come from the query string (manual curl) or a JSON body (Cloud Scheduler)
+const getRequestParam = (req: Request, name: string): string | undefined => {
+  const value = req.query[name] ?? req.body?.[name];
+  return typeof value === 'string' && value !== '' ? value : undefined;
+};
+
+// Requests that charge shops on demand need `Authorization: Bearer <ADMIN_API_TOKEN>` like adminApi.
+// Answers 503 (no token configured) or 401 and returns false when the request may not proceed.
+const authorizeAdminRequest = (req: Request, res: Response, action: string): boolean => {
+  const adminToken = process.env.ADMIN_API_TOKEN;
+  if (adminToken && isValidBearerToken(req.headers.authorization, adminToken)) {
+    return true;
+  }
+
+  res.status(adminToken ? 401 : 503).json({
+    success: false,
+    message: adminToken ? 'Missing or invalid bearer token' : `${action} is disabled: ADMIN_API_TOKEN is not set`,
+    timestamp: new Date().toISOString()
+  });
+  return false;
+};
 
 export const processBilling: HttpFunction = async (req, res) => {
   console.log('Billing batch process started');
@@ -16,22 +52,102 @@ export const processBilling: HttpFunction = async (req, res) => {
     // Check if this is a scheduled trigger from Cloud Scheduler
     const isScheduledTrigger = req.headers['x-cloudscheduler-job'] || 
                               req.headers['user-agent']?.includes('Google-Cloud-Scheduler');
+
+    // Backfill mode: explicit date range, or automatic catch-up of missed days on scheduled runs
+    const startDate = getRequestParam(req, 'startDate');
+    const endDate = getRequestParam(req, 'endDate');
+    if ((startDate && !endDate) || (!startDate && endDate)) {
+      res.status(400).json({
+        success: false,
+        message: 'Both startDate and endDate are required for backfill',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+    if ((startDate && !isValidDate(startDate)) || (endDate && !isValidDate(endDate))) {
+      res.status(400).json({
+        success: false,
+        message: 'startDate and endDate must be valid dates in YYYY-MM-DD format',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+    // The function is public for Cloud Scheduler; charging arbitrary past days is not
+    if (startDate && !authorizeAdminRequest(req, res, 'Backfill')) {
+      return;
+    }
+
+    // Dry run: the full daily pipeline for `date` (default: yesterday) without writes or charges
+    const dryRun = getRequestParam(req, 'dryRun') === 'true';
+    const date = getRequestParam(req, 'date');
+    if (dryRun && (startDate || endDate)) {
+      res.status(400).json({
+        success: false,
+        message: 'dryRun cannot be combined with a backfill date range',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+    if (date && (!dryRun || !isValidDate(date))) {
+      res.status(400).json({
+        success: false,
+        message: 'date is only accepted with dryRun=true and must be in YYYY-MM-DD format',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const backfillResult = dryRun ? null : startDate && endDate
+      ? await billingService.processBackfill(startDate, endDate)
+      : isScheduledTrigger ? await billingService.processCatchUp() : null;
+
+    if (backfillResult) {
+      const processedCount = backfillResult.results.filter(r => r.success).length;
+      const result = {
+        success: backfillResult.success,
+        message: `Backfill completed: ${processedCount}/${backfillResult.missingDates.length} missing dates processed`,
+        timestamp: new Date().toISOString(),
+        scheduled: !!isScheduledTrigger,
+        backfillDetails: backfillResult
+      };
+
+      await notificationRouter.notifyBatchResult(result);
+
+      res.status(200).json(result);
+      return;
+    }
     
     // Process daily billing
-    const billingResult = await billingService.processDailyBilling();
+    const billingResult = await billingService.processDailyBilling(date, {
+      dryRun,
+      trigger: isScheduledTrigger ? 'scheduled' : 'manual'
+    });
+
+    // Another run holds the lock for the date; it reports its own result
+    if (billingResult.lockedByRunId) {
+      res.status(409).json({
+        success: false,
+        message: billingResult.skipReason,
+        timestamp: new Date().toISOString(),
+        billingDetails: billingResult
+      });
+      return;
+    }
     
     const result = {
       success: true,
-      message: billingResult.skipped ? 
+      message: (dryRun ? '[DRY RUN] ' : '') + (billingResult.skipped ? 
         `Billing process skipped: ${billingResult.skipReason}` : 
-        'Billing process completed successfully',
+        billingResult.dispatchedJobs !== undefined ?
+          `Billing records saved; ${billingResult.dispatchedJobs} charge jobs dispatched` :
+          dryRun ? 'Dry run completed; nothing was charged or saved' : 'Billing process completed successfully'),
       timestamp: new Date().toISOString(),
       scheduled: !!isScheduledTrigger,
       billingDetails: billingResult
     };
     
-    // Send result to Slack
-    await slackService.sendBatchResult(result);
+    // Send result to the notification routes
+    await notificationRouter.notifyBatchResult(result);
     
     res.status(200).json(result);
     
@@ -64,8 +180,8 @@ export const processBilling: HttpFunction = async (req, res) => {
       }
     };
     
-    // Send error result to Slack
-    await slackService.sendBatchResult(errorResult);
+    // Send error result to the notification routes
+    await notificationRouter.notifyBatchResult(errorResult);
     
     res.status(500).json(errorResult);
   }
@@ -76,9 +192,28 @@ export const testBilling: HttpFunction = async (req, res) => {
   
   try {
     const { date } = req.query;
+    if (date !== undefined && !isValidDate(date)) {
+      res.status(400).json({
+        success: false,
+        message: 'date must be a valid date in YYYY-MM-DD format',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
     const testDate = typeof date === 'string' ? date : new Date().toISOString().split('T')[0];
     
     const billingResult = await billingService.testBillingForDate(testDate);
+
+    if (billingResult.lockedByRunId) {
+      res.status(409).json({
+        success: false,
+        message: billingResult.skipReason,
+        testDate,
+        timestamp: new Date().toISOString(),
+        billingDetails: billingResult
+      });
+      return;
+    }
     
     const result = {
       success: true,
@@ -88,8 +223,8 @@ export const testBilling: HttpFunction = async (req, res) => {
       billingDetails: billingResult
     };
     
-    // Send result to Slack
-    await slackService.sendBatchResult(result);
+    // Send result to the notification routes
+    await notificationRouter.notifyBatchResult(result);
     
     res.status(200).json(result);
     
@@ -103,13 +238,389 @@ export const testBilling: HttpFunction = async (req, res) => {
       timestamp: new Date().toISOString()
     };
     
-    // Send error result to Slack
-    await slackService.sendBatchResult(errorResult);
+    // Send error result to the notification routes
+    await notificationRouter.notifyBatchResult(errorResult);
     
     res.status(500).json(errorResult);
   }
 };
 
+// Charges shops again, so it needs `Authorization: Bearer <ADMIN_API_TOKEN>` like releaseHeldCharge
+export const retryFailedCharges: HttpFunction = async (req, res) => {
+  console.log('Retry failed charges process started');
+
+  if (!authorizeAdminRequest(req, res, 'retryFailedCharges')) {
+    return;
+  }
+
+  const date = getRequestParam(req, 'date');
+  if (!isValidDate(date)) {
+    res.status(400).json({
+      success: false,
+      message: 'date parameter is required in YYYY-MM-DD format',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  try {
+    const billingResult = await billingService.retryFailedCharges(date);
+
+    // A billing run or another retry holds the lock for the date
+    if (billingResult.lockedByRunId) {
+      res.status(409).json({
+        success: false,
+        message: billingResult.skipReason,
+        timestamp: new Date().toISOString(),
+        billingDetails: billingResult
+      });
+      return;
+    }
+
+    const result = {
+      success: true,
+      message: billingResult.skipped ?
+        `Retry skipped: ${billingResult.skipReason}` :
+        `Retried failed charges for date: ${date}`,
+      timestamp: new Date().toISOString(),
+      billingDetails: billingResult
+    };
+
+    // Send result to the notification routes
+    await notificationRouter.notifyBatchResult(result);
+
+    res.status(200).json(result);
+
+  } catch (error) {
+    console.error('Error retrying failed charges:', error);
+
+    const errorResult = {
+      success: false,
+      message: 'Retry of failed charges failed',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    };
+
+    // Send error result to the notification routes
+    await notificationRouter.notifyBatchResult(errorResult);
+
+    res.status(500).json(errorResult);
+  }
+};
+
+// Charges a day that anomaly detection held, optionally at an adjusted USD amount (amount=0 rejects it).
+// Needs `Authorization: Bearer <ADMIN_API_TOKEN>` like adminApi, since it charges shops.
+export const releaseHeldCharge: HttpFunction = async (req, res) => {
+  console.log('Release of held charge started');
+
+  if (!authorizeAdminRequest(req, res, 'releaseHeldCharge')) {
+    return;
+  }
+
+  const shopParam = getRequestParam(req, 'shop');
+  const date = getRequestParam(req, 'date');
+  const amountParam = getRequestParam(req, 'amount') ?? (typeof req.body?.amount === 'number' ? String(req.body.amount) : undefined);
+  const amount = amountParam !== undefined ? Number(amountParam) : undefined;
+  if (!shopParam || !isValidDate(date) || (amount !== undefined && (!isFinite(amount) || amount < 0))) {
+    res.status(400).json({
+      success: false,
+      message: 'shop and date (YYYY-MM-DD) are required; amount must be a non-negative USD amount',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+  const shop = shopParam.includes('.') ? shopParam : `${shopParam}.myshopify.com`;
+
+  try {
+    const billingResult = await billingService.resolveHeldCharge(shop, date, {
+      amount,
+      resolvedBy: getRequestParam(req, 'releasedBy')
+    });
+
+    const result = {
+      success: true,
+      message: billingResult.skipped ?
+        `Release skipped: ${billingResult.skipReason}` :
+        `Released held charge for ${shop} (${date})` + (amount !== undefined ? ` adjusted to $${amount.toFixed(2)}` : ''),
+      timestamp: new Date().toISOString(),
+      billingDetails: billingResult
+    };
+
+    await notificationRouter.notifyBatchResult(result);
+
+    res.status(200).json(result);
+
+  } catch (error) {
+    console.error('Error releasing held charge:', error);
+
+    const errorResult = {
+      success: false,
+      message: 'Release of held charge failed',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    };
+
+    await notificationRouter.notifyBatchResult(errorResult);
+
+    res.status(500).json(errorResult);
+  }
+};
+
+// Approve / Adjust / Reject buttons on approval requests. Slack expects a reply within 3 seconds, so
+// the decision is published to approvalWorker, which charges and updates the message with the outcome.
+export const slackInteractions: HttpFunction = async (req, res) => {
+  const signingSecret = process.env.SLACK_SIGNING_SECRET;
+  const rawBody = req.rawBody?.toString('utf8') ?? '';
+  if (!signingSecret || !verifySlackSignature(
+    signingSecret,
+    req.get('x-slack-request-timestamp'),
+    rawBody,
+    req.get('x-slack-signature')
+  )) {
+    res.status(401).send('Invalid Slack signature');
+    return;
+  }
+
+  try {
+    const payload = JSON.parse(req.body?.payload ?? '{}') as SlackInteractionPayload;
+    const interaction = parseInteraction(payload);
+    if (!interaction) {
+      res.status(200).send();
+      return;
+    }
+
+    if (interaction.type === 'adjust_requested') {
+      await slackService.openAdjustChargeModal(interaction.triggerId, interaction.request);
+      res.status(200).send();
+      return;
+    }
+
+    if (interaction.type === 'adjust_submitted' && (!isFinite(interaction.amount) || interaction.amount < 0)) {
+      res.status(200).json({
+        response_action: 'errors',
+        errors: { amount: slackService.i18n.t('approval.invalidAmount') }
+      });
+      return;
+    }
+
+    const { shop, billing_date: date } = interaction.request;
+    const amount = interaction.type === 'adjust_submitted' ? interaction.amount :
+      interaction.decision === 'reject' ? 0 : undefined;
+    console.log(`Slack approval action for ${shop} (${date}) by ${interaction.user}: amount ${amount ?? 'as computed'}`);
+
+    const decision: ApprovalDecision = { request: interaction.request, amount, user: interaction.user };
+    await pubSubService.publishApprovalDecision(decision);
+    await slackService.showApprovalProcessing(
+      interaction.request,
+      interaction.user,
+      interaction.type === 'decision' ? interaction.responseUrl : undefined
+    );
+
+    res.status(200).send();
+
+  } catch (error) {
+    console.error('Error handling Slack interaction:', error);
+    res.status(500).send();
+  }
+};
+
+// Compares usage_records with the usage records Shopify holds; defaults to the last RECONCILIATION_DAYS days
+export const reconcileBilling: HttpFunction = async (req, res) => {
+  console.log('Billing reconciliation started');
+
+  const startDate = getRequestParam(req, 'startDate');
+  const endDate = getRequestParam(req, 'endDate');
+  if ((startDate && !endDate) || (!startDate && endDate)) {
+    res.status(400).json({
+      success: false,
+      message: 'Both startDate and endDate are required for a custom range',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+  if ((startDate && !isValidDate(startDate)) || (endDate && !isValidDate(endDate)) ||
+      (startDate && endDate && startDate > endDate)) {
+    res.status(400).json({
+      success: false,
+      message: 'startDate and endDate must be valid dates in YYYY-MM-DD format, startDate first',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  try {
+    const range = startDate && endDate ? { startDate, endDate } : reconciliationService.getDefaultRange();
+    const reconciliationResult = await reconciliationService.reconcile(range.startDate, range.endDate);
+
+    await notificationRouter.notify({ kind: 'reconciliation', result: reconciliationResult });
+
+    res.status(200).json({
+      success: reconciliationResult.success,
+      message: `Reconciliation found ${reconciliationResult.findings.length} discrepancies`,
+      timestamp: new Date().toISOString(),
+      reconciliationDetails: reconciliationResult
+    });
+
+  } catch (error) {
+    console.error('Error reconciling billing:', error);
+
+    const errorResult = {
+      success: false,
+      message: 'Billing reconciliation failed',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    };
+
+    await notificationRouter.notifyBatchResult(errorResult);
+
+    res.status(500).json(errorResult);
+  }
+};
+
+// Per-shop monthly usage statement as JSON (default) or CSV (format=csv)
+export const usageStatement: HttpFunction = async (req, res) => {
+  const shopParam = getRequestParam(req, 'shop');
+  const month = getRequestParam(req, 'month');
+  const format = getRequestParam(req, 'format') ?? 'json';
+  if (!shopParam || !isValidMonth(month) || (format !== 'json' && format !== 'csv')) {
+    res.status(400).json({
+      success: false,
+      message: 'shop and month (YYYY-MM) are required; format must be json or csv',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  // Accept the shop handle as well as the full myshopify.com domain
+  const shop = shopParam.includes('.') ? shopParam : `${shopParam}.myshopify.com`;
+
+  try {
+    const statement = await statementService.generateStatement(shop, month);
+    if (statement.lines.length === 0) {
+      res.status(404).json({
+        success: false,
+        message: `No billing records found for ${shop} in ${month}`,
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    if (format === 'csv') {
+      res.set('Content-Type', 'text/csv; charset=utf-8');
+      res.set('Content-Disposition', `attachment; filename="${shop.replace(/\.myshopify\.com$/, '')}-${month}.csv"`);
+      res.status(200).send(formatStatementCsv(statement));
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      statement
+    });
+
+  } catch (error) {
+    console.error('Error generating usage statement:', error);
+
+    res.status(500).json({
+      success: false,
+      message: 'Usage statement generation failed',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+};
+
+// Read-only admin API over billing history (routes in AdminApiService)
+export const adminApi: HttpFunction = async (req, res) => {
+  try {
+    const response = await adminApiService.handle(req.method, req.path, req.headers.authorization, req.query);
+    res.status(response.status).json(response.body);
+  } catch (error) {
+    console.error('Error in admin API:', error);
+
+    res.status(500).json({
+      success: false,
+      message: 'Admin API request failed',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+// Pub/Sub push payload as delivered to CloudEvent functions
+interface MessagePublishedData {
+  message?: {
+    data?: string;
+  };
+}
+
+// Charges one shop per message on the charge jobs topic. The function is deployed without
+// retries, so a failed job is completed as `failed` instead of being redelivered.
+export const chargeWorker: CloudEventFunction<MessagePublishedData> = async (event) => {
+  const job = decodeMessage<ChargeJob>(event.data);
+  try {
+    const completion = await billingService.processChargeJob(job);
+    console.log(`Charge job for ${completion.shop} completed with status ${completion.status}`);
+  } catch (error) {
+    console.error(`Charge job for ${job.record.shop} failed:`, error);
+    await billingService.failChargeJob(job, error);
+  }
+};
+
+// Sends the report for a fanned-out run once its last charge job has completed
+export const finalizeBilling: CloudEventFunction<MessagePublishedData> = async (event) => {
+  const completion = decodeMessage<ChargeCompletion>(event.data);
+  const billingResult = await billingService.finalizeChargeRun(completion);
+  if (!billingResult) {
+    return;
+  }
+
+  await notificationRouter.notifyBatchResult({
+    success: true,
+    message: `All ${billingResult.dispatchedJobs} charge jobs completed`,
+    timestamp: new Date().toISOString(),
+    billingDetails: billingResult
+  });
+};
+
+// Carries out approval decisions published by slackInteractions. Deployed without retries like
+// chargeWorker; a failure is shown on the approval message instead of leaving it as processing.
+export const approvalWorker: CloudEventFunction<MessagePublishedData> = async (event) => {
+  const { request, amount, user } = decodeMessage<ApprovalDecision>(event.data);
+  let billingResult: DailyBillingResult;
+  try {
+    billingResult = await billingService.resolveHeldCharge(request.shop, request.billing_date, { amount, resolvedBy: user });
+  } catch (error) {
+    console.error(`Approval decision for ${request.shop} (${request.billing_date}) failed:`, error);
+    billingResult = {
+      success: false,
+      targetDate: request.billing_date,
+      skipped: false,
+      activeSessions: 0,
+      shopsWithPageViews: 0,
+      billingRecordsGenerated: 0,
+      totalPageViews: 0,
+      totalAmount: 0,
+      errorDetails: {
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      }
+    };
+  }
+
+  await slackService.updateApprovalMessage(request, user, billingResult);
+};
+
 // Register HTTP functions
 http('processBilling', processBilling);
-http('testBilling', testBilling);
\ No newline at end of file
+http('testBilling', testBilling);
+http('retryFailedCharges', retryFailedCharges);
+http('releaseHeldCharge', releaseHeldCharge);
+http('slackInteractions', slackInteractions);
+http('reconcileBilling', reconcileBilling);
+http('usageStatement', usageStatement);
+http('adminApi', adminApi);
+
+// Register Pub/Sub-triggered functions
+cloudEvent('chargeWorker', chargeWorker);
+cloudEvent('finalizeBilling', finalizeBilling);
+cloudEvent('approvalWorker', approvalWorker);
\ No newline at end of file
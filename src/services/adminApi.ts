@@ -0,0 +1,161 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+import { BigQueryService } from './bigquery';
+import { isValidDate } from '../utils/date';
+import { isValidBearerToken } from '../utils/auth';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+export interface AdminApiResponse {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+type QueryValues = Record<string, unknown>;
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+// Window for /runs and /failed-charges when no range is given
+const DEFAULT_RANGE_DAYS = 30;
+
+/**
+ * Read-only views over billing state for dashboards and support tools:
+ *   GET /runs, GET /dates/:date, GET /shops/:shop/history, GET /failed-charges
+ * Every request needs `Authorization: Bearer <ADMIN_API_TOKEN>`; without a configured token the API is disabled.
+ */
+export class AdminApiService {
+  private bigQueryService: BigQueryService;
+  private token?: string;
+  private timezone: string;
+
+  constructor() {
+    this.bigQueryService = new BigQueryService();
+    this.token = process.env.ADMIN_API_TOKEN || undefined;
+    this.timezone = process.env.BILLING_TIMEZONE || 'Asia/Tokyo';
+  }
+
+  async handle(method: string, path: string, authorization: string | undefined, query: QueryValues): Promise<AdminApiResponse> {
+    if (!this.token) {
+      return this.error(503, 'Admin API is disabled: ADMIN_API_TOKEN is not set');
+    }
+    if (!isValidBearerToken(authorization, this.token)) {
+      return this.error(401, 'Missing or invalid bearer token');
+    }
+    if (method !== 'GET') {
+      return this.error(405, `Method ${method} not allowed`);
+    }
+
+    const segments = path.split('/').filter(Boolean).map(decodeURIComponent);
+
+    if (segments.length === 1 && segments[0] === 'runs') {
+      return this.getRuns(query);
+    }
+    if (segments.length === 2 && segments[0] === 'dates') {
+      return this.getDate(segments[1]);
+    }
+    if (segments.length === 3 && segments[0] === 'shops' && segments[2] === 'history') {
+      return this.getShopHistory(segments[1], query);
+    }
+    if (segments.length === 1 && segments[0] === 'failed-charges') {
+      return this.getFailedCharges(query);
+    }
+
+    return this.error(404, `Unknown route: ${path}`);
+  }
+
+  private async getRuns(query: QueryValues): Promise<AdminApiResponse> {
+    const range = this.parseRange(query);
+    if (!range) {
+      return this.error(400, 'startDate and endDate must both be valid YYYY-MM-DD dates, startDate first');
+    }
+    const limit = this.parseInteger(query.limit, DEFAULT_PAGE_SIZE, 1, MAX_PAGE_SIZE);
+    if (limit === null) {
+      return this.error(400, `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+    }
+
+    const runs = await this.bigQueryService.getBatchRuns(range.startDate, range.endDate, limit);
+    return { status: 200, body: { ...range, runs } };
+  }
+
+  private async getDate(date: string): Promise<AdminApiResponse> {
+    if (!isValidDate(date)) {
+      return this.error(400, 'date must be in YYYY-MM-DD format');
+    }
+
+    const [summaries, records] = await Promise.all([
+      this.bigQueryService.getBillingDateSummaries(date),
+      this.bigQueryService.getCurrentBillingRecords(date),
+    ]);
+    if (summaries.length === 0) {
+      return this.error(404, `No billing records for ${date}`);
+    }
+
+    return { status: 200, body: { summary: summaries[0], records } };
+  }
+
+  private async getShopHistory(shopParam: string, query: QueryValues): Promise<AdminApiResponse> {
+    const limit = this.parseInteger(query.limit, DEFAULT_PAGE_SIZE, 1, MAX_PAGE_SIZE);
+    const offset = this.parseInteger(query.offset, 0, 0, Number.MAX_SAFE_INTEGER);
+    if (limit === null || offset === null) {
+      return this.error(400, `limit must be 1-${MAX_PAGE_SIZE} and offset a non-negative integer`);
+    }
+
+    const shop = shopParam.includes('.') ? shopParam : `${shopParam}.myshopify.com`;
+    // One extra row tells whether another page exists
+    const rows = await this.bigQueryService.getShopBillingHistory(shop, limit + 1, offset);
+    const records = rows.slice(0, limit);
+
+    return {
+      status: 200,
+      body: {
+        shop,
+        records,
+        limit,
+        offset,
+        nextOffset: rows.length > limit ? offset + limit : null,
+      },
+    };
+  }
+
+  private async getFailedCharges(query: QueryValues): Promise<AdminApiResponse> {
+    const range = this.parseRange(query);
+    if (!range) {
+      return this.error(400, 'startDate and endDate must both be valid YYYY-MM-DD dates, startDate first');
+    }
+
+    const records = await this.bigQueryService.getCurrentBillingRecords(range.startDate, range.endDate);
+    const failedCharges = records.filter(record => record.shopify_billing_status === 'failed');
+
+    return { status: 200, body: { ...range, failedCharges } };
+  }
+
+  // Explicit range, or the last DEFAULT_RANGE_DAYS billing dates up to yesterday
+  private parseRange(query: QueryValues): { startDate: string; endDate: string } | null {
+    const { startDate, endDate } = query;
+    if (startDate === undefined && endDate === undefined) {
+      const end = dayjs().tz(this.timezone).subtract(1, 'day');
+      return {
+        startDate: end.subtract(DEFAULT_RANGE_DAYS - 1, 'day').format('YYYY-MM-DD'),
+        endDate: end.format('YYYY-MM-DD'),
+      };
+    }
+    if (!isValidDate(startDate) || !isValidDate(endDate) || startDate > endDate) {
+      return null;
+    }
+    return { startDate, endDate };
+  }
+
+  private parseInteger(value: unknown, defaultValue: number, min: number, max: number): number | null {
+    if (value === undefined || value === '') {
+      return defaultValue;
+    }
+    const parsed = Number(value);
+    return Number.isInteger(parsed) && parsed >= min && parsed <= max ? parsed : null;
+  }
+
+  private error(status: number, message: string): AdminApiResponse {
+    return { status, body: { success: false, message } };
+  }
+}
@@ -0,0 +1,39 @@
+import { AnomalyConfig } from '../types/billing';
+
+export interface AnomalyCheck {
+  baseline: number | null;
+  reason: string;
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Compares a shop's page views for the billing day with the median of its trailing history.
+ * Returns why the day looks anomalous, or null when it can be charged as usual.
+ */
+export function detectAnomaly(pageViews: number, history: number[], config: AnomalyConfig): AnomalyCheck | null {
+  const baseline = history.length >= config.minBaselineDays ? median(history) : null;
+
+  if (config.absoluteThreshold > 0 && pageViews > config.absoluteThreshold) {
+    return {
+      baseline,
+      reason: `${pageViews} page views exceed the absolute threshold of ${config.absoluteThreshold}`,
+    };
+  }
+
+  if (baseline !== null && pageViews > config.minPageViews && pageViews > baseline * config.multiplier) {
+    return {
+      baseline,
+      reason: `${pageViews} page views exceed ${config.multiplier}x the ${history.length}-day median of ${baseline}`,
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,112 @@
+import { randomUUID } from 'crypto';
+import { BigQueryService } from './bigquery';
+import { BatchRun, BatchRunOutcome, BatchRunTrigger, DailyBillingResult } from '../types/billing';
+
+export type BatchRunClaim =
+  | { acquired: true; run: BatchRun }
+  | { acquired: false; run: BatchRun; heldBy: BatchRun };
+
+/**
+ * Records each billing run in billing.batch_runs. A `running` row with an unexpired lease is the
+ * lock for its billing date: a second run for the same date is refused (and recorded as
+ * `refused`) until the first one finishes or its lease runs out, e.g. after a crash. A run that
+ * fanned its charges out stays `running` until finalizeChargeRun finishes it.
+ */
+export class BatchRunService {
+  private bigQueryService: BigQueryService;
+  private leaseMinutes: number;
+
+  constructor(
+    bigQueryService: BigQueryService = new BigQueryService(),
+    leaseMinutes: number = parseInt(process.env.BATCH_RUN_LEASE_MINUTES || '30')
+  ) {
+    this.bigQueryService = bigQueryService;
+    this.leaseMinutes = leaseMinutes;
+  }
+
+  async start(billingDate: string, trigger: BatchRunTrigger): Promise<BatchRunClaim> {
+    const runId = randomUUID();
+    const running = await this.bigQueryService.claimBatchRun(runId, trigger, billingDate, this.leaseMinutes);
+
+    const holder = running[0];
+    if (holder?.run_id === runId) {
+      console.log(`Batch run ${runId} started for ${billingDate} (${trigger})`);
+      return { acquired: true, run: holder };
+    }
+
+    const now = new Date().toISOString();
+    const run: BatchRun = {
+      run_id: runId,
+      trigger_type: trigger,
+      billing_date: billingDate,
+      status: 'refused',
+      started_at: now,
+      lease_expires_at: now,
+      finished_at: now,
+      message: holder
+        ? `Run ${holder.run_id} (${holder.trigger_type}) holds the lock until ${holder.lease_expires_at}`
+        : 'Lock could not be acquired',
+    };
+    console.warn(`Batch run for ${billingDate} refused: ${run.message}`);
+    await this.bigQueryService.refuseBatchRun(run);
+
+    // The claim only loses to a running row, so a missing holder means it expired in between
+    return { acquired: false, run, heldBy: holder ?? run };
+  }
+
+  /**
+   * Stores the counts and totals of the result and releases the lock. Failures are logged, not
+   * thrown: the billing itself is done, and the lease frees the date if the update was lost.
+   */
+  async finish(run: BatchRun, result: DailyBillingResult): Promise<void> {
+    const finished = this.toOutcome(run.run_id, result);
+
+    try {
+      await this.bigQueryService.finishBatchRun(finished);
+      console.log(`Batch run ${run.run_id} finished: ${finished.status}`);
+    } catch (error) {
+      console.error(`Failed to record the end of batch run ${run.run_id}:`, error);
+    }
+  }
+
+  /**
+   * Finishes a fanned-out run once every charge job has completed. Only the first call for a run
+   * updates it, so a completion event delivered twice is reported once: returns false when the
+   * run was already finished. A failed update returns true; a duplicate report beats none.
+   */
+  async finishDispatched(runId: string, result: DailyBillingResult): Promise<boolean> {
+    const finished = this.toOutcome(runId, result);
+
+    try {
+      if (!(await this.bigQueryService.finishBatchRun(finished, true))) {
+        console.log(`Batch run ${runId} was already finished`);
+        return false;
+      }
+      console.log(`Batch run ${runId} finished after its charge jobs: ${finished.status}`);
+    } catch (error) {
+      console.error(`Failed to record the end of batch run ${runId}:`, error);
+    }
+    return true;
+  }
+
+  private toOutcome(runId: string, result: DailyBillingResult): BatchRunOutcome {
+    const shopResults = result.shopResults ?? [];
+    const count = (status: string) => shopResults.filter(shop => shop.shopifyStatus === status).length;
+
+    return {
+      run_id: runId,
+      status: !result.success ? 'failed' : result.skipped ? 'skipped' : 'succeeded',
+      billing_records: result.billingRecordsGenerated,
+      success_count: count('success'),
+      failed_count: count('failed'),
+      capped_count: count('capped'),
+      held_count: count('held'),
+      awaiting_approval_count: count('awaiting_approval'),
+      total_page_views: result.totalPageViews,
+      total_amount: result.totalAmount,
+      dispatched_jobs: result.dispatchedJobs,
+      deferred_shops: result.deferredShops,
+      message: result.errorDetails?.message ?? result.skipReason,
+    };
+  }
+}
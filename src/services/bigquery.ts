@@ -1,58 +1,267 @@
-import { BigQuery } from '@google-cloud/bigquery';
 import dayjs from 'dayjs';
 import utc from 'dayjs/plugin/utc';
 import timezone from 'dayjs/plugin/timezone';
-import { ShopifySession, PageViewEvent, BillingRecord } from '../types/billing';
+import {
+  ShopifySession,
+  PageViewEvent,
+  BillingRecord,
+  ChargeLedgerEntry,
+  ShopPricingPlan,
+  PricingPlan,
+  CarryOverBalance,
+  FxRate,
+  BillingDateSummary,
+  BatchRun,
+  BatchRunOutcome,
+  ApprovalThreshold,
+  ShopStatusRecord,
+  ChargeCompletion,
+  ReconciliationFinding
+} from '../types/billing';
+import { BigQueryRepository, TableField } from './bigqueryRepository';
+import { assertValidDate } from '../utils/date';
 
 dayjs.extend(utc);
 dayjs.extend(timezone);
 
+const USAGE_RECORDS_SCHEMA: TableField[] = [
+  { name: 'shop', type: 'STRING', mode: 'REQUIRED' },
+  { name: 'billing_date', type: 'DATE', mode: 'REQUIRED' },
+  { name: 'page_views', type: 'INTEGER', mode: 'REQUIRED' },
+  { name: 'billing_amount', type: 'FLOAT', mode: 'REQUIRED' },
+  { name: 'pricing_plan_id', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'pricing_tier', type: 'INTEGER', mode: 'NULLABLE' },
+  { name: 'raw_amount', type: 'FLOAT', mode: 'NULLABLE' },
+  { name: 'carry_over_consumed', type: 'FLOAT', mode: 'NULLABLE' },
+  { name: 'carry_over_balance', type: 'FLOAT', mode: 'NULLABLE' },
+  { name: 'shopify_charge_id', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'shopify_billing_status', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'shopify_error_message', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'shopify_error_category', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'shopify_processed_at', type: 'TIMESTAMP', mode: 'NULLABLE' },
+  { name: 'shopify_charged_amount', type: 'FLOAT', mode: 'NULLABLE' },
+  { name: 'shopify_unbilled_amount', type: 'FLOAT', mode: 'NULLABLE' },
+  { name: 'shopify_capped_amount', type: 'FLOAT', mode: 'NULLABLE' },
+  { name: 'shopify_balance_used', type: 'FLOAT', mode: 'NULLABLE' },
+  { name: 'shopify_currency_code', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'shopify_fx_rate', type: 'FLOAT', mode: 'NULLABLE' },
+  { name: 'billing_timezone', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'hold_reason', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'anomaly_baseline', type: 'FLOAT', mode: 'NULLABLE' },
+  { name: 'approval_threshold', type: 'FLOAT', mode: 'NULLABLE' },
+  { name: 'held_amount', type: 'FLOAT', mode: 'NULLABLE' },
+  { name: 'hold_resolution', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'hold_resolved_by', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'created_at', type: 'TIMESTAMP', mode: 'REQUIRED' },
+];
+
+// Columns no longer written; relaxed to NULLABLE so new rows can omit them
+const LEGACY_USAGE_RECORDS_FIELDS = ['rate_per_million'];
+
+const SHOP_STATUSES_SCHEMA: TableField[] = [
+  { name: 'shop', type: 'STRING', mode: 'REQUIRED' },
+  { name: 'status', type: 'STRING', mode: 'REQUIRED' },
+  { name: 'session_updated_at', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'error_message', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'checked_at', type: 'TIMESTAMP', mode: 'REQUIRED' },
+];
+
+const CHARGE_COMPLETIONS_SCHEMA: TableField[] = [
+  { name: 'run_id', type: 'STRING', mode: 'REQUIRED' },
+  { name: 'billing_date', type: 'DATE', mode: 'REQUIRED' },
+  { name: 'expected_jobs', type: 'INTEGER', mode: 'REQUIRED' },
+  { name: 'shop', type: 'STRING', mode: 'REQUIRED' },
+  { name: 'page_views', type: 'INTEGER', mode: 'REQUIRED' },
+  { name: 'billing_amount', type: 'FLOAT', mode: 'REQUIRED' },
+  { name: 'status', type: 'STRING', mode: 'REQUIRED' },
+  { name: 'charge_id', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'error_message', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'error_category', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'charged_amount', type: 'FLOAT', mode: 'NULLABLE' },
+  { name: 'currency_code', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'completed_at', type: 'TIMESTAMP', mode: 'REQUIRED' },
+];
+
+const RECONCILIATION_FINDINGS_SCHEMA: TableField[] = [
+  { name: 'run_id', type: 'STRING', mode: 'REQUIRED' },
+  { name: 'shop', type: 'STRING', mode: 'REQUIRED' },
+  { name: 'billing_date', type: 'DATE', mode: 'NULLABLE' },
+  { name: 'finding_type', type: 'STRING', mode: 'REQUIRED' },
+  { name: 'shopify_charge_id', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'expected_amount', type: 'FLOAT', mode: 'NULLABLE' },
+  { name: 'actual_amount', type: 'FLOAT', mode: 'NULLABLE' },
+  { name: 'currency_code', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'detail', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'detected_at', type: 'TIMESTAMP', mode: 'REQUIRED' },
+];
+
+// Written with DML only: rows in the streaming buffer could not be updated when the run finishes
+const BATCH_RUNS_SCHEMA: TableField[] = [
+  { name: 'run_id', type: 'STRING', mode: 'REQUIRED' },
+  { name: 'trigger_type', type: 'STRING', mode: 'REQUIRED' },
+  { name: 'billing_date', type: 'DATE', mode: 'REQUIRED' },
+  { name: 'status', type: 'STRING', mode: 'REQUIRED' },
+  { name: 'started_at', type: 'TIMESTAMP', mode: 'REQUIRED' },
+  { name: 'lease_expires_at', type: 'TIMESTAMP', mode: 'REQUIRED' },
+  { name: 'finished_at', type: 'TIMESTAMP', mode: 'NULLABLE' },
+  { name: 'billing_records', type: 'INTEGER', mode: 'NULLABLE' },
+  { name: 'success_count', type: 'INTEGER', mode: 'NULLABLE' },
+  { name: 'failed_count', type: 'INTEGER', mode: 'NULLABLE' },
+  { name: 'capped_count', type: 'INTEGER', mode: 'NULLABLE' },
+  { name: 'held_count', type: 'INTEGER', mode: 'NULLABLE' },
+  { name: 'awaiting_approval_count', type: 'INTEGER', mode: 'NULLABLE' },
+  { name: 'total_page_views', type: 'INTEGER', mode: 'NULLABLE' },
+  { name: 'total_amount', type: 'FLOAT', mode: 'NULLABLE' },
+  { name: 'dispatched_jobs', type: 'INTEGER', mode: 'NULLABLE' },
+  { name: 'deferred_shops', type: 'INTEGER', mode: 'NULLABLE' },
+  { name: 'message', type: 'STRING', mode: 'NULLABLE' },
+];
+
+// BatchRun fields as selected from batch_runs
+const BATCH_RUN_COLUMNS = `
+  run_id,
+  trigger_type,
+  CAST(billing_date AS STRING) AS billing_date,
+  IF(status = 'running' AND lease_expires_at <= CURRENT_TIMESTAMP(), 'expired', status) AS status,
+  FORMAT_TIMESTAMP('%Y-%m-%dT%H:%M:%E3SZ', started_at) AS started_at,
+  FORMAT_TIMESTAMP('%Y-%m-%dT%H:%M:%E3SZ', lease_expires_at) AS lease_expires_at,
+  FORMAT_TIMESTAMP('%Y-%m-%dT%H:%M:%E3SZ', finished_at) AS finished_at,
+  billing_records,
+  success_count,
+  failed_count,
+  capped_count,
+  held_count,
+  awaiting_approval_count,
+  total_page_views,
+  total_amount,
+  dispatched_jobs,
+  deferred_shops,
+  message
+`;
+
+// BillingRecord fields as selected from usage_records / usage_records_current
+const BILLING_RECORD_COLUMNS = `
+  shop,
+  CAST(billing_date AS STRING) AS billing_date,
+  page_views,
+  billing_amount,
+  pricing_plan_id,
+  pricing_tier,
+  raw_amount,
+  carry_over_consumed,
+  carry_over_balance,
+  shopify_charge_id,
+  shopify_billing_status,
+  shopify_error_message,
+  shopify_error_category,
+  CAST(shopify_processed_at AS STRING) AS shopify_processed_at,
+  shopify_charged_amount,
+  shopify_unbilled_amount,
+  shopify_capped_amount,
+  shopify_balance_used,
+  shopify_currency_code,
+  shopify_fx_rate,
+  billing_timezone,
+  hold_reason,
+  anomaly_baseline,
+  approval_threshold,
+  held_amount,
+  hold_resolution,
+  hold_resolved_by
+`;
+
+// One row per (shop, billing_date): the latest of the append-only usage_records rows
+const USAGE_RECORDS_CURRENT_VIEW = 'usage_records_current';
+
+const CHARGE_LEDGER_SCHEMA: TableField[] = [
+  { name: 'shop', type: 'STRING', mode: 'REQUIRED' },
+  { name: 'billing_date', type: 'DATE', mode: 'REQUIRED' },
+  { name: 'idempotency_key', type: 'STRING', mode: 'REQUIRED' },
+  { name: 'shopify_charge_id', type: 'STRING', mode: 'REQUIRED' },
+  // In currency_code, the currency the shop was actually charged in
+  { name: 'amount', type: 'FLOAT', mode: 'REQUIRED' },
+  { name: 'currency_code', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'charged_at', type: 'TIMESTAMP', mode: 'REQUIRED' },
+];
+
 export class BigQueryService {
-  private bigquery: BigQuery;
-  private projectId: string;
+  private repository: BigQueryRepository;
+  private currentRecordsViewReady = false;
 
   constructor() {
-    this.projectId = process.env.GOOGLE_CLOUD_PROJECT || 'growth-force-project';
-    this.bigquery = new BigQuery({ projectId: this.projectId });
+    const projectId = process.env.GOOGLE_CLOUD_PROJECT || 'growth-force-project';
+    this.repository = new BigQueryRepository(projectId);
   }
 
-  async getActiveShopifySessions(): Promise<ShopifySession[]> {
+  /**
+   * Every session row with a token, optionally for a single shop. A shop can have several
+   * (online tokens, reinstalls); use selectSessionsPerShop to pick the one to bill with.
+   */
+  async getActiveShopifySessions(shop?: string): Promise<ShopifySession[]> {
     const query = `
       SELECT 
+        id AS session_id,
         shop,
         accessToken,
-        createdAt AS created_at,
-        updatedAt AS updated_at
-      FROM \`${this.projectId}.session_manager.shopify_sessions\`
+        COALESCE(isOnline, FALSE) AS is_online,
+        CAST(createdAt AS STRING) AS created_at,
+        CAST(updatedAt AS STRING) AS updated_at
+      FROM ${this.repository.tableRef('session_manager', 'shopify_sessions')}
       WHERE accessToken IS NOT NULL
         AND accessToken != ''
         AND shop IS NOT NULL
         AND shop != ''
+        ${shop ? 'AND shop = @shop' : ''}
+      ORDER BY shop, updatedAt DESC
     `;
 
-    const [rows] = await this.bigquery.query(query);
-    // session_idを生成（shopをそのまま使用）
-    return rows.map((row: Record<string, unknown>) => ({
-      ...row,
-      session_id: (row as unknown as ShopifySession).shop
-    })) as ShopifySession[];
+    return this.repository.query<ShopifySession>(query, shop ? { shop } : {});
   }
 
-  async getPageViewsForDate(targetDate: string): Promise<PageViewEvent[]> {
+  /**
+   * Page views per shop for the billing day, counted over [00:00, 24:00) in the billing timezone.
+   * Shops present in shopTimezones are counted over their own day instead.
+   */
+  async getPageViewsForDate(
+    targetDate: string,
+    timezone: string = 'Asia/Tokyo',
+    shopTimezones: Map<string, string> = new Map()
+  ): Promise<PageViewEvent[]> {
     const query = `
+      WITH shop_timezones AS (
+        SELECT
+          REGEXP_REPLACE(tz.shop, r'\\.myshopify\\.com$', '') AS shop,
+          tz.timezone
+        FROM UNNEST(@shopTimezones) AS tz
+      )
       SELECT 
-        REGEXP_REPLACE(shop, r'\\.myshopify\\.com$', '') AS shop,
+        REGEXP_REPLACE(events.shop, r'\\.myshopify\\.com$', '') AS shop,
         COUNT(*) as event_count
-      FROM \`${this.projectId}.ad_analytics.events\`
-      WHERE name = 'page_viewed'
-        AND DATE(created_at) = DATE('${targetDate}')
-        AND shop IS NOT NULL
-        AND shop != ''
-      GROUP BY shop
+      FROM ${this.repository.tableRef('ad_analytics', 'events')} AS events
+      LEFT JOIN shop_timezones
+        ON shop_timezones.shop = REGEXP_REPLACE(events.shop, r'\\.myshopify\\.com$', '')
+      WHERE events.name = 'page_viewed'
+        -- Coarse UTC bound first so the scan covers three days whatever the timezone
+        AND DATE(events.created_at) BETWEEN DATE_SUB(DATE(@targetDate), INTERVAL 1 DAY)
+          AND DATE_ADD(DATE(@targetDate), INTERVAL 1 DAY)
+        AND events.created_at >= TIMESTAMP(DATE(@targetDate), COALESCE(shop_timezones.timezone, @timezone))
+        AND events.created_at < TIMESTAMP(DATE_ADD(DATE(@targetDate), INTERVAL 1 DAY), COALESCE(shop_timezones.timezone, @timezone))
+        AND events.shop IS NOT NULL
+        AND events.shop != ''
+      GROUP BY 1
     `;
 
-    const [rows] = await this.bigquery.query(query);
-    return rows as PageViewEvent[];
+    const params = {
+      targetDate,
+      timezone,
+      shopTimezones: Array.from(shopTimezones, ([shop, shopTimezone]) => ({ shop, timezone: shopTimezone })),
+    };
+    // Type is required so an empty array can still be sent
+    const types = {
+      shopTimezones: [{ shop: 'STRING', timezone: 'STRING' }],
+    };
+
+    return this.repository.query<PageViewEvent>(query, params, types);
   }
 
   async insertBillingRecords(records: BillingRecord[]): Promise<void> {
@@ -61,108 +270,443 @@ export class BigQueryService {
       return;
     }
 
-    const dataset = this.bigquery.dataset('billing');
-    const table = dataset.table('usage_records');
+    await this.repository.ensureTable('billing', 'usage_records', USAGE_RECORDS_SCHEMA, LEGACY_USAGE_RECORDS_FIELDS);
+    await this.ensureCurrentRecordsView();
 
-    try {
-      await dataset.get({ autoCreate: true });
-    } catch (error) {
-      console.log('Creating billing dataset...');
-      await dataset.create();
+    const rowsToInsert = records.map(record => ({
+      ...record,
+      created_at: new Date().toISOString(),
+    }));
+
+    await this.repository.insertRows('billing', 'usage_records', rowsToInsert);
+    console.log(`Inserted ${records.length} billing records`);
+  }
+
+  /**
+   * Current state of each shop-day in the range: exactly one row per (shop, billing_date),
+   * the latest one, with its full charge status. Reads from the usage_records_current view.
+   */
+  async getCurrentBillingRecords(
+    startDate: string,
+    endDate: string = startDate,
+    shop?: string,
+    readOnly: boolean = false
+  ): Promise<BillingRecord[]> {
+    if (!(await this.ensureCurrentRecordsView(readOnly))) {
+      console.log('Billing records table does not exist yet');
+      return [];
     }
 
-    try {
-      await table.get();
-      
-      // Check if we need to add new columns
-      const [metadata] = await table.getMetadata();
-      const existingFields = metadata.schema.fields.map((field: any) => field.name);
-      
-      const requiredFields = [
-        'shopify_charge_id',
-        'shopify_billing_status', 
-        'shopify_error_message',
-        'shopify_processed_at'
-      ];
-      
-      const missingFields = requiredFields.filter(field => !existingFields.includes(field));
-      
-      if (missingFields.length > 0) {
-        console.log(`Adding missing fields to usage_records table: ${missingFields.join(', ')}`);
-        
-        const newSchema = [...metadata.schema.fields];
-        
-        if (missingFields.includes('shopify_charge_id')) {
-          newSchema.push({ name: 'shopify_charge_id', type: 'STRING', mode: 'NULLABLE' });
-        }
-        if (missingFields.includes('shopify_billing_status')) {
-          newSchema.push({ name: 'shopify_billing_status', type: 'STRING', mode: 'NULLABLE' });
-        }
-        if (missingFields.includes('shopify_error_message')) {
-          newSchema.push({ name: 'shopify_error_message', type: 'STRING', mode: 'NULLABLE' });
-        }
-        if (missingFields.includes('shopify_processed_at')) {
-          newSchema.push({ name: 'shopify_processed_at', type: 'TIMESTAMP', mode: 'NULLABLE' });
-        }
-        
-        await table.setMetadata({ schema: { fields: newSchema } });
-        console.log('Successfully added new fields to usage_records table');
-      }
-      
-    } catch (error) {
-      console.log('Creating usage_records table...');
-      await table.create({
-        schema: [
-          { name: 'shop', type: 'STRING', mode: 'REQUIRED' },
-          { name: 'billing_date', type: 'DATE', mode: 'REQUIRED' },
-          { name: 'page_views', type: 'INTEGER', mode: 'REQUIRED' },
-          { name: 'billing_amount', type: 'FLOAT', mode: 'REQUIRED' },
-          { name: 'rate_per_million', type: 'FLOAT', mode: 'REQUIRED' },
-          { name: 'shopify_charge_id', type: 'STRING', mode: 'NULLABLE' },
-          { name: 'shopify_billing_status', type: 'STRING', mode: 'NULLABLE' },
-          { name: 'shopify_error_message', type: 'STRING', mode: 'NULLABLE' },
-          { name: 'shopify_processed_at', type: 'TIMESTAMP', mode: 'NULLABLE' },
-          { name: 'created_at', type: 'TIMESTAMP', mode: 'REQUIRED' },
-        ],
-      });
+    const query = `
+      SELECT ${BILLING_RECORD_COLUMNS}
+      FROM ${this.repository.tableRef('billing', USAGE_RECORDS_CURRENT_VIEW)}
+      WHERE billing_date BETWEEN DATE(@startDate) AND DATE(@endDate)
+        ${shop ? 'AND shop = @shop' : ''}
+      ORDER BY billing_date, shop
+    `;
+
+    return this.repository.query<BillingRecord>(query, shop ? { startDate, endDate, shop } : { startDate, endDate });
+  }
+
+  /**
+   * Per-date totals over the current state, so retries and re-runs are counted once.
+   */
+  async getBillingDateSummaries(startDate: string, endDate: string = startDate): Promise<BillingDateSummary[]> {
+    if (!(await this.ensureCurrentRecordsView())) {
+      return [];
     }
 
-    const rowsToInsert = records.map(record => ({
-      ...record,
-      created_at: new Date().toISOString(),
+    const query = `
+      SELECT
+        CAST(billing_date AS STRING) AS billing_date,
+        COUNT(*) AS shops,
+        SUM(page_views) AS total_page_views,
+        SUM(billing_amount) AS total_amount,
+        COUNTIF(shopify_billing_status = 'success') AS success_count,
+        COUNTIF(shopify_billing_status = 'failed') AS failed_count,
+        COUNTIF(shopify_billing_status = 'capped') AS capped_count,
+        COUNTIF(shopify_billing_status = 'pending' OR shopify_billing_status IS NULL) AS pending_count,
+        COUNTIF(shopify_billing_status = 'held') AS held_count,
+        COUNTIF(shopify_billing_status = 'awaiting_approval') AS awaiting_approval_count
+      FROM ${this.repository.tableRef('billing', USAGE_RECORDS_CURRENT_VIEW)}
+      WHERE billing_date BETWEEN DATE(@startDate) AND DATE(@endDate)
+      GROUP BY billing_date
+      ORDER BY billing_date
+    `;
+
+    return this.repository.query<BillingDateSummary>(query, { startDate, endDate });
+  }
+
+  /**
+   * Batch runs whose billing date is in the range, newest first.
+   */
+  async getBatchRuns(startDate: string, endDate: string, limit: number): Promise<BatchRun[]> {
+    if (!(await this.repository.tableExists('billing', 'batch_runs'))) {
+      return [];
+    }
+    // Adds columns introduced since the table was created
+    await this.repository.ensureTable('billing', 'batch_runs', BATCH_RUNS_SCHEMA);
+
+    const query = `
+      SELECT ${BATCH_RUN_COLUMNS}
+      FROM ${this.repository.tableRef('billing', 'batch_runs')}
+      WHERE billing_date BETWEEN DATE(@startDate) AND DATE(@endDate)
+      ORDER BY started_at DESC
+      LIMIT @limit
+    `;
+
+    return this.repository.query<BatchRun>(query, { startDate, endDate, limit });
+  }
+
+  /**
+   * Inserts a `running` row for the run unless another run for the same billing date is `running`
+   * with an unexpired lease. Returns every such row afterwards, oldest first, so the caller can
+   * tell whether it holds the lock.
+   */
+  async claimBatchRun(
+    runId: string,
+    triggerType: string,
+    billingDate: string,
+    leaseMinutes: number
+  ): Promise<BatchRun[]> {
+    await this.repository.ensureTable('billing', 'batch_runs', BATCH_RUNS_SCHEMA);
+
+    const table = this.repository.tableRef('billing', 'batch_runs');
+    const claim = `
+      MERGE ${table} AS target
+      USING (SELECT DATE(@billingDate) AS billing_date) AS source
+      ON target.billing_date = source.billing_date
+        AND target.status = 'running'
+        AND target.lease_expires_at > CURRENT_TIMESTAMP()
+      WHEN NOT MATCHED THEN
+        INSERT (run_id, trigger_type, billing_date, status, started_at, lease_expires_at)
+        VALUES (
+          @runId, @triggerType, source.billing_date, 'running', CURRENT_TIMESTAMP(),
+          TIMESTAMP_ADD(CURRENT_TIMESTAMP(), INTERVAL @leaseMinutes MINUTE)
+        )
+    `;
+    await this.repository.query(claim, { runId, triggerType, billingDate, leaseMinutes });
+
+    // BigQuery has no row locks: two claims committed at the same moment can both insert, so the
+    // read-back decides (the earliest run wins) rather than the MERGE alone
+    const readBack = `
+      SELECT ${BATCH_RUN_COLUMNS}
+      FROM ${table}
+      WHERE billing_date = DATE(@billingDate)
+        AND status = 'running'
+        AND lease_expires_at > CURRENT_TIMESTAMP()
+      ORDER BY started_at, run_id
+    `;
+    return this.repository.query<BatchRun>(readBack, { billingDate });
+  }
+
+  /**
+   * Records a run that was refused because another run held the lock. A claim that lost the
+   * read-back has already inserted its own `running` row; that row is turned into the refused one,
+   * so it does not keep holding the lock until its lease runs out.
+   */
+  async refuseBatchRun(run: BatchRun): Promise<void> {
+    await this.repository.ensureTable('billing', 'batch_runs', BATCH_RUNS_SCHEMA);
+
+    const query = `
+      MERGE ${this.repository.tableRef('billing', 'batch_runs')} AS target
+      USING (SELECT @runId AS run_id) AS source
+      ON target.run_id = source.run_id
+      WHEN MATCHED THEN
+        UPDATE SET
+          status = 'refused',
+          lease_expires_at = CURRENT_TIMESTAMP(),
+          finished_at = CURRENT_TIMESTAMP(),
+          message = @message
+      WHEN NOT MATCHED THEN
+        INSERT (run_id, trigger_type, billing_date, status, started_at, lease_expires_at, finished_at, message)
+        VALUES (
+          @runId, @triggerType, DATE(@billingDate), 'refused',
+          CURRENT_TIMESTAMP(), CURRENT_TIMESTAMP(), CURRENT_TIMESTAMP(), @message
+        )
+    `;
+    await this.repository.query(query, {
+      runId: run.run_id,
+      triggerType: run.trigger_type,
+      billingDate: run.billing_date,
+      message: run.message ?? '',
+    });
+  }
+
+  /**
+   * Stores the outcome of a run and releases its lock. With `onlyIfRunning`, a run that is no
+   * longer `running` is left as it is. Returns whether the row was updated.
+   */
+  async finishBatchRun(run: BatchRunOutcome, onlyIfRunning: boolean = false): Promise<boolean> {
+    const query = `
+      UPDATE ${this.repository.tableRef('billing', 'batch_runs')}
+      SET
+        status = @status,
+        finished_at = CURRENT_TIMESTAMP(),
+        billing_records = @billingRecords,
+        success_count = @successCount,
+        failed_count = @failedCount,
+        capped_count = @cappedCount,
+        held_count = @heldCount,
+        awaiting_approval_count = @awaitingApprovalCount,
+        total_page_views = @totalPageViews,
+        total_amount = @totalAmount,
+        dispatched_jobs = @dispatchedJobs,
+        deferred_shops = @deferredShops,
+        message = @message
+      WHERE run_id = @runId${onlyIfRunning ? " AND status = 'running'" : ''};
+      SELECT @@row_count AS updated_rows;
+    `;
+
+    const params = {
+      runId: run.run_id,
+      status: run.status,
+      billingRecords: run.billing_records ?? null,
+      successCount: run.success_count ?? null,
+      failedCount: run.failed_count ?? null,
+      cappedCount: run.capped_count ?? null,
+      heldCount: run.held_count ?? null,
+      awaitingApprovalCount: run.awaiting_approval_count ?? null,
+      totalPageViews: run.total_page_views ?? null,
+      totalAmount: run.total_amount ?? null,
+      dispatchedJobs: run.dispatched_jobs ?? null,
+      deferredShops: run.deferred_shops ?? null,
+      message: run.message ?? null,
+    };
+    // NULL parameters need explicit types
+    const types = {
+      billingRecords: 'INT64',
+      successCount: 'INT64',
+      failedCount: 'INT64',
+      cappedCount: 'INT64',
+      heldCount: 'INT64',
+      awaitingApprovalCount: 'INT64',
+      totalPageViews: 'INT64',
+      totalAmount: 'FLOAT64',
+      dispatchedJobs: 'INT64',
+      deferredShops: 'INT64',
+      message: 'STRING',
+    };
+
+    const [result] = await this.repository.query<{ updated_rows: number }>(query, params, types);
+    return Number(result?.updated_rows ?? 0) > 0;
+  }
+
+  /**
+   * One shop's current record per billing date, newest date first.
+   */
+  async getShopBillingHistory(shop: string, limit: number, offset: number): Promise<BillingRecord[]> {
+    if (!(await this.ensureCurrentRecordsView())) {
+      return [];
+    }
+
+    const query = `
+      SELECT ${BILLING_RECORD_COLUMNS}
+      FROM ${this.repository.tableRef('billing', USAGE_RECORDS_CURRENT_VIEW)}
+      WHERE shop = @shop
+      ORDER BY billing_date DESC
+      LIMIT @limit OFFSET @offset
+    `;
+
+    return this.repository.query<BillingRecord>(query, { shop, limit, offset });
+  }
+
+  /**
+   * Plan assigned to each shop on the target date. Overlapping assignments resolve to
+   * the one that became effective most recently.
+   */
+  async getShopPricingPlans(targetDate: string): Promise<ShopPricingPlan[]> {
+    const [assignmentsExist, plansExist] = await Promise.all([
+      this.repository.tableExists('billing', 'shop_pricing_plans'),
+      this.repository.tableExists('billing', 'pricing_plans'),
+    ]);
+    if (!assignmentsExist || !plansExist) {
+      return [];
+    }
+
+    const query = `
+      SELECT
+        assignment.shop,
+        plan.plan_id,
+        plan.name,
+        plan.tiers,
+        CAST(assignment.effective_from AS STRING) AS effective_from,
+        CAST(assignment.effective_to AS STRING) AS effective_to
+      FROM ${this.repository.tableRef('billing', 'shop_pricing_plans')} AS assignment
+      JOIN ${this.repository.tableRef('billing', 'pricing_plans')} AS plan
+        ON plan.plan_id = assignment.plan_id
+      WHERE assignment.effective_from <= DATE(@targetDate)
+        AND (assignment.effective_to IS NULL OR assignment.effective_to >= DATE(@targetDate))
+      QUALIFY ROW_NUMBER() OVER (PARTITION BY assignment.shop ORDER BY assignment.effective_from DESC) = 1
+    `;
+
+    const rows = await this.repository.query<ShopPricingPlan>(query, { targetDate });
+    return rows.map(row => ({
+      ...row,
+      // Tiers are stored unordered; pricing walks them from the lowest bound up
+      tiers: [...row.tiers].sort((a, b) => (a.up_to ?? Infinity) - (b.up_to ?? Infinity)),
     }));
+  }
 
-    try {
-      await table.insert(rowsToInsert);
-      console.log(`Inserted ${records.length} billing records`);
-    } catch (error: any) {
-      console.error('BigQuery insert error:', error);
-      if (error.errors && error.errors.length > 0) {
-        console.error('Detailed errors:', JSON.stringify(error.errors[0], null, 2));
-      }
-      throw error;
+  /**
+   * Plan definitions by ID, regardless of which shops they are assigned to.
+   */
+  async getPricingPlans(planIds: string[]): Promise<PricingPlan[]> {
+    if (planIds.length === 0 || !(await this.repository.tableExists('billing', 'pricing_plans'))) {
+      return [];
     }
+
+    const query = `
+      SELECT plan_id, name, tiers
+      FROM ${this.repository.tableRef('billing', 'pricing_plans')}
+      WHERE plan_id IN UNNEST(@planIds)
+    `;
+
+    const rows = await this.repository.query<PricingPlan>(query, { planIds });
+    return rows.map(row => ({
+      ...row,
+      tiers: [...row.tiers].sort((a, b) => (a.up_to ?? Infinity) - (b.up_to ?? Infinity)),
+    }));
   }
 
-  async getBillingRecordsForDate(targetDate: string): Promise<BillingRecord[]> {
+  /**
+   * Page views already billed in the target date's month, before the target date.
+   */
+  async getMonthToDatePageViews(targetDate: string, readOnly: boolean = false): Promise<PageViewEvent[]> {
+    if (!(await this.ensureCurrentRecordsView(readOnly))) {
+      return [];
+    }
+
     const query = `
-      SELECT 
-        shop,
-        billing_date,
-        page_views,
-        billing_amount,
-        rate_per_million
-      FROM \`${this.projectId}.billing.usage_records\`
-      WHERE billing_date = DATE('${targetDate}')
+      SELECT shop, SUM(page_views) AS event_count
+      FROM ${this.repository.tableRef('billing', USAGE_RECORDS_CURRENT_VIEW)}
+      WHERE billing_date >= DATE_TRUNC(DATE(@targetDate), MONTH)
+        AND billing_date < DATE(@targetDate)
+      GROUP BY shop
     `;
 
-    try {
-      const [rows] = await this.bigquery.query(query);
-      return rows as BillingRecord[];
-    } catch (error) {
-      console.log('Billing records table does not exist yet');
+    return this.repository.query<PageViewEvent>(query, { targetDate });
+  }
+
+  /**
+   * Per-shop approval thresholds from billing.shop_approval_thresholds, when the table exists.
+   */
+  async getShopApprovalThresholds(): Promise<ApprovalThreshold[]> {
+    if (!(await this.repository.tableExists('billing', 'shop_approval_thresholds'))) {
+      return [];
+    }
+
+    const query = `
+      SELECT shop, threshold_amount
+      FROM ${this.repository.tableRef('billing', 'shop_approval_thresholds')}
+      WHERE threshold_amount IS NOT NULL
+    `;
+
+    return this.repository.query<ApprovalThreshold>(query);
+  }
+
+  /**
+   * Each shop's page views per billing date over the `days` dates before the target date,
+   * the baseline for anomaly detection.
+   */
+  async getPageViewHistory(
+    targetDate: string,
+    days: number,
+    readOnly: boolean = false
+  ): Promise<Array<{ shop: string; page_views: number }>> {
+    if (!(await this.ensureCurrentRecordsView(readOnly))) {
+      return [];
+    }
+
+    const query = `
+      SELECT shop, page_views
+      FROM ${this.repository.tableRef('billing', USAGE_RECORDS_CURRENT_VIEW)}
+      WHERE billing_date >= DATE_SUB(DATE(@targetDate), INTERVAL @days DAY)
+        AND billing_date < DATE(@targetDate)
+    `;
+
+    return this.repository.query<{ shop: string; page_views: number }>(query, { targetDate, days });
+  }
+
+  /**
+   * Unbilled balance each shop carries into the target date, taken from its most recent
+   * earlier billing day.
+   */
+  async getCarryOverBalances(targetDate: string, readOnly: boolean = false): Promise<CarryOverBalance[]> {
+    if (!(await this.ensureCurrentRecordsView(readOnly))) {
       return [];
     }
+
+    const query = `
+      SELECT shop, carry_over_balance
+      FROM ${this.repository.tableRef('billing', USAGE_RECORDS_CURRENT_VIEW)}
+      WHERE billing_date < DATE(@targetDate)
+        AND carry_over_balance IS NOT NULL
+      QUALIFY ROW_NUMBER() OVER (PARTITION BY shop ORDER BY billing_date DESC) = 1
+    `;
+
+    return this.repository.query<CarryOverBalance>(query, { targetDate });
+  }
+
+  /**
+   * Latest FX rate per currency effective on the target date, as units of the currency per 1 USD.
+   */
+  async getFxRates(targetDate: string): Promise<FxRate[]> {
+    if (!(await this.repository.tableExists('billing', 'fx_rates'))) {
+      return [];
+    }
+
+    const query = `
+      SELECT currency_code, rate_per_usd
+      FROM ${this.repository.tableRef('billing', 'fx_rates')}
+      WHERE effective_date <= DATE(@targetDate)
+      QUALIFY ROW_NUMBER() OVER (PARTITION BY currency_code ORDER BY effective_date DESC) = 1
+    `;
+
+    return this.repository.query<FxRate>(query, { targetDate });
+  }
+
+  /**
+   * Dates in the range that a completed run has already processed: a `succeeded` or `skipped`
+   * run in batch_runs without failed charges (test runs bill nothing, retries only part of a day), or a current usage_records
+   * row with a successful, capped or parked outcome. Days that only carried amounts over or parked
+   * charges count as billed, so catch-up does not run them again; a day where every charge failed
+   * does not, so catch-up retries it. Neither does a day whose latest run deferred shops because
+   * the day had not ended in their timezone yet.
+   */
+  async getBilledDates(startDate: string, endDate: string): Promise<string[]> {
+    await this.repository.ensureTable('billing', 'batch_runs', BATCH_RUNS_SCHEMA);
+    const batchRuns = this.repository.tableRef('billing', 'batch_runs');
+    const sources = [`
+      SELECT CAST(billing_date AS STRING) AS billing_date
+      FROM ${batchRuns}
+      WHERE billing_date BETWEEN DATE(@startDate) AND DATE(@endDate)
+        AND status IN ('succeeded', 'skipped')
+        AND COALESCE(failed_count, 0) = 0
+        AND COALESCE(deferred_shops, 0) = 0
+        AND trigger_type NOT IN ('test', 'retry')
+    `];
+    if (await this.ensureCurrentRecordsView()) {
+      sources.push(`
+        SELECT CAST(billing_date AS STRING) AS billing_date
+        FROM ${this.repository.tableRef('billing', USAGE_RECORDS_CURRENT_VIEW)}
+        WHERE billing_date BETWEEN DATE(@startDate) AND DATE(@endDate)
+          AND shopify_billing_status IN ('success', 'capped', 'held', 'awaiting_approval', 'rejected')
+          AND billing_date NOT IN (
+            SELECT billing_date
+            FROM ${batchRuns}
+            WHERE billing_date BETWEEN DATE(@startDate) AND DATE(@endDate)
+              AND status IN ('succeeded', 'skipped')
+              AND trigger_type NOT IN ('test', 'retry')
+            QUALIFY ROW_NUMBER() OVER (PARTITION BY billing_date ORDER BY started_at DESC) = 1
+              AND COALESCE(deferred_shops, 0) > 0
+          )
+      `);
+    }
+
+    const query = sources.join('UNION DISTINCT');
+    const rows = await this.repository.query<{ billing_date: string }>(query, { startDate, endDate });
+    return rows.map(row => row.billing_date);
   }
 
   async updateBillingRecords(records: BillingRecord[]): Promise<void> {
@@ -170,22 +714,207 @@ export class BigQueryService {
       return;
     }
 
-    const query = records.map(record => `
-      UPDATE \`${this.projectId}.billing.usage_records\`
-      SET 
-        shopify_charge_id = '${record.shopify_charge_id || ''}',
-        shopify_billing_status = '${record.shopify_billing_status || 'pending'}',
-        shopify_error_message = ${record.shopify_error_message ? `'${record.shopify_error_message}'` : 'NULL'},
-        shopify_processed_at = ${record.shopify_processed_at ? `TIMESTAMP('${record.shopify_processed_at}')` : 'NULL'}
-      WHERE shop = '${record.shop}' AND billing_date = DATE('${record.billing_date}')
-    `).join(';\n');
+    records.forEach(record => assertValidDate(record.billing_date, 'billing_date'));
+
+    // One MERGE for the whole batch; values travel as an array-of-struct parameter
+    const query = `
+      MERGE ${this.repository.tableRef('billing', 'usage_records')} AS target
+      USING UNNEST(@records) AS source
+      ON target.shop = source.shop AND target.billing_date = DATE(source.billing_date)
+      WHEN MATCHED THEN UPDATE SET
+        shopify_charge_id = source.shopify_charge_id,
+        shopify_billing_status = source.shopify_billing_status,
+        shopify_error_message = source.shopify_error_message,
+        shopify_processed_at = TIMESTAMP(source.shopify_processed_at)
+    `;
+
+    const params = {
+      records: records.map(record => ({
+        shop: record.shop,
+        billing_date: record.billing_date,
+        shopify_charge_id: record.shopify_charge_id ?? null,
+        shopify_billing_status: record.shopify_billing_status || 'pending',
+        shopify_error_message: record.shopify_error_message ?? null,
+        shopify_processed_at: record.shopify_processed_at ?? null,
+      })),
+    };
+    const types = {
+      records: [{
+        shop: 'STRING',
+        billing_date: 'STRING',
+        shopify_charge_id: 'STRING',
+        shopify_billing_status: 'STRING',
+        shopify_error_message: 'STRING',
+        shopify_processed_at: 'STRING',
+      }],
+    };
 
     try {
-      await this.bigquery.query(query);
+      await this.repository.query(query, params, types);
       console.log(`Updated ${records.length} billing records with Shopify charge status`);
     } catch (error) {
       console.error('Error updating billing records:', error);
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  async getChargeLedgerEntries(targetDate: string): Promise<ChargeLedgerEntry[]> {
+    if (!(await this.repository.tableExists('billing', 'charge_ledger'))) {
+      console.log('Charge ledger table does not exist yet');
+      return [];
+    }
+
+    // Errors here must propagate: billing without the ledger could double-charge shops
+    const query = `
+      SELECT
+        shop,
+        CAST(billing_date AS STRING) AS billing_date,
+        idempotency_key,
+        shopify_charge_id,
+        amount,
+        currency_code,
+        CAST(charged_at AS STRING) AS charged_at
+      FROM ${this.repository.tableRef('billing', 'charge_ledger')}
+      WHERE billing_date = DATE(@targetDate)
+    `;
+
+    return this.repository.query<ChargeLedgerEntry>(query, { targetDate });
+  }
+
+  async insertChargeLedgerEntries(entries: ChargeLedgerEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    await this.repository.ensureTable('billing', 'charge_ledger', CHARGE_LEDGER_SCHEMA);
+
+    await this.repository.insertRows('billing', 'charge_ledger', entries);
+    console.log(`Inserted ${entries.length} charge ledger entries`);
+  }
+
+  /**
+   * Result of the most recent pre-flight check for each shop.
+   */
+  async getLatestShopStatuses(): Promise<ShopStatusRecord[]> {
+    if (!(await this.repository.tableExists('billing', 'shop_statuses'))) {
+      return [];
+    }
+
+    const query = `
+      SELECT
+        shop,
+        status,
+        session_updated_at,
+        error_message,
+        CAST(checked_at AS STRING) AS checked_at
+      FROM ${this.repository.tableRef('billing', 'shop_statuses')}
+      WHERE TRUE
+      QUALIFY ROW_NUMBER() OVER (PARTITION BY shop ORDER BY checked_at DESC) = 1
+    `;
+
+    return this.repository.query<ShopStatusRecord>(query);
+  }
+
+  async insertShopStatuses(records: ShopStatusRecord[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+
+    await this.repository.ensureTable('billing', 'shop_statuses', SHOP_STATUSES_SCHEMA);
+
+    await this.repository.insertRows('billing', 'shop_statuses', records);
+    console.log(`Inserted ${records.length} shop status checks`);
+  }
+
+  async insertChargeCompletions(completions: ChargeCompletion[]): Promise<void> {
+    if (completions.length === 0) {
+      return;
+    }
+
+    await this.repository.ensureTable('billing', 'charge_completions', CHARGE_COMPLETIONS_SCHEMA);
+
+    await this.repository.insertRows('billing', 'charge_completions', completions);
+  }
+
+  /**
+   * Every completion of a fanned-out run, oldest first. A shop can appear more than once because
+   * Pub/Sub may deliver a job more than once; the caller decides which completion counts.
+   */
+  async getChargeCompletions(runId: string): Promise<ChargeCompletion[]> {
+    if (!(await this.repository.tableExists('billing', 'charge_completions'))) {
+      return [];
+    }
+
+    const query = `
+      SELECT
+        run_id,
+        CAST(billing_date AS STRING) AS billing_date,
+        expected_jobs,
+        shop,
+        page_views,
+        billing_amount,
+        status,
+        charge_id,
+        error_message,
+        error_category,
+        charged_amount,
+        currency_code,
+        -- Millisecond precision, as written by Date.toISOString, so events can be matched to rows
+        FORMAT_TIMESTAMP('%Y-%m-%dT%H:%M:%E3SZ', completed_at) AS completed_at
+      FROM ${this.repository.tableRef('billing', 'charge_completions')}
+      WHERE run_id = @runId
+      ORDER BY completed_at, shop
+    `;
+
+    return this.repository.query<ChargeCompletion>(query, { runId });
+  }
+
+  async insertReconciliationFindings(findings: ReconciliationFinding[]): Promise<void> {
+    if (findings.length === 0) {
+      return;
+    }
+
+    await this.repository.ensureTable('billing', 'reconciliation_findings', RECONCILIATION_FINDINGS_SCHEMA);
+
+    await this.repository.insertRows('billing', 'reconciliation_findings', findings);
+    console.log(`Inserted ${findings.length} reconciliation findings`);
+  }
+
+  /**
+   * Creates or refreshes the usage_records_current view. Returns false while usage_records
+   * itself does not exist yet, in which case there is no state to read.
+   *
+   * `readOnly` (dry runs) never changes the schema: the view is used as it is, and a missing
+   * view reads as no state.
+   */
+  private async ensureCurrentRecordsView(readOnly: boolean = false): Promise<boolean> {
+    if (this.currentRecordsViewReady) {
+      return true;
+    }
+    if (readOnly) {
+      return this.repository.tableExists('billing', USAGE_RECORDS_CURRENT_VIEW);
+    }
+    if (!(await this.repository.tableExists('billing', 'usage_records'))) {
+      return false;
+    }
+
+    // Latest row wins; on a created_at tie the charge outcome beats the pending row
+    const viewQuery = `
+      SELECT * EXCEPT(row_number)
+      FROM (
+        SELECT
+          *,
+          ROW_NUMBER() OVER (
+            PARTITION BY shop, billing_date
+            ORDER BY created_at DESC, IF(shopify_billing_status = 'pending', 1, 0)
+          ) AS row_number
+        FROM ${this.repository.tableRef('billing', 'usage_records')}
+      )
+      WHERE row_number = 1
+    `;
+
+    await this.repository.ensureView('billing', USAGE_RECORDS_CURRENT_VIEW, viewQuery);
+    this.currentRecordsViewReady = true;
+    return true;
+  }
+}
@@ -0,0 +1,142 @@
+import { BigQuery, Query, Table } from '@google-cloud/bigquery';
+import { assertValidDate } from '../utils/date';
+
+export interface TableField {
+  name: string;
+  type: string;
+  mode?: string;
+}
+
+type QueryParams = Record<string, unknown>;
+type QueryParamTypes = NonNullable<Query['types']>;
+
+/**
+ * Data-access layer over BigQuery. Every statement runs with named query parameters, and
+ * parameters named `*Date` are validated as YYYY-MM-DD before anything reaches BigQuery.
+ */
+export class BigQueryRepository {
+  private bigquery: BigQuery;
+  private projectId: string;
+
+  constructor(projectId: string) {
+    this.projectId = projectId;
+    this.bigquery = new BigQuery({ projectId });
+  }
+
+  // Identifiers cannot be query parameters; they only ever come from code and configuration
+  tableRef(datasetId: string, tableId: string): string {
+    return `\`${this.projectId}.${datasetId}.${tableId}\``;
+  }
+
+  async query<T>(query: string, params: QueryParams = {}, types?: QueryParamTypes): Promise<T[]> {
+    this.validateParams(params);
+
+    const options: Query = { query, params, types };
+    const [rows] = await this.bigquery.query(options);
+    return rows as T[];
+  }
+
+  async tableExists(datasetId: string, tableId: string): Promise<boolean> {
+    const [exists] = await this.bigquery.dataset(datasetId).table(tableId).exists();
+    return exists;
+  }
+
+  async insertRows(datasetId: string, tableId: string, rows: object[]): Promise<void> {
+    const table = this.bigquery.dataset(datasetId).table(tableId);
+
+    try {
+      await table.insert(rows);
+    } catch (error: any) {
+      console.error('BigQuery insert error:', error);
+      if (error.errors && error.errors.length > 0) {
+        console.error('Detailed errors:', JSON.stringify(error.errors[0], null, 2));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Creates the table if needed, otherwise adds any columns missing from the schema
+   * and relaxes legacy columns that are no longer written.
+   */
+  async ensureTable(
+    datasetId: string,
+    tableId: string,
+    schema: TableField[],
+    legacyFields: string[] = []
+  ): Promise<Table> {
+    const dataset = this.bigquery.dataset(datasetId);
+
+    try {
+      await dataset.get({ autoCreate: true });
+    } catch (error) {
+      console.log(`Creating ${datasetId} dataset...`);
+      await dataset.create();
+    }
+
+    const table = dataset.table(tableId);
+
+    try {
+      await table.get();
+
+      // Check if we need to add new columns
+      const [metadata] = await table.getMetadata();
+      const existingFields: TableField[] = metadata.schema.fields;
+      const existingNames = existingFields.map(field => field.name);
+
+      const missingFields = schema.filter(field => !existingNames.includes(field.name));
+      const legacyRequiredFields = existingFields.filter(field =>
+        legacyFields.includes(field.name) && field.mode === 'REQUIRED'
+      );
+
+      if (missingFields.length > 0 || legacyRequiredFields.length > 0) {
+        console.log(`Updating ${tableId} schema: adding ${missingFields.map(f => f.name).join(', ') || 'none'}`);
+
+        const newSchema = [
+          ...existingFields.map(field =>
+            legacyFields.includes(field.name) ? { ...field, mode: 'NULLABLE' } : field
+          ),
+          // Columns added to an existing table must be NULLABLE
+          ...missingFields.map(field => ({ ...field, mode: 'NULLABLE' })),
+        ];
+
+        await table.setMetadata({ schema: { fields: newSchema } });
+        console.log(`Successfully updated ${tableId} table schema`);
+      }
+
+    } catch (error) {
+      console.log(`Creating ${tableId} table...`);
+      await table.create({ schema });
+    }
+
+    return table;
+  }
+
+  /**
+   * Creates the view, or updates its SQL when the definition in code has changed.
+   */
+  async ensureView(datasetId: string, viewId: string, query: string): Promise<void> {
+    const dataset = this.bigquery.dataset(datasetId);
+    const view = dataset.table(viewId);
+    const definition = { query: query.trim(), useLegacySql: false };
+
+    const [exists] = await view.exists();
+    if (!exists) {
+      console.log(`Creating ${viewId} view...`);
+      await dataset.createTable(viewId, { view: definition });
+      return;
+    }
+
+    const [metadata] = await view.getMetadata();
+    if (metadata.view?.query?.trim() !== definition.query) {
+      console.log(`Updating ${viewId} view definition...`);
+      await view.setMetadata({ view: definition });
+    }
+  }
+
+  private validateParams(params: QueryParams): void {
+    Object.entries(params)
+      .filter(([name]) => name.endsWith('Date'))
+      .forEach(([name, value]) => assertValidDate(value, name));
+  }
+}
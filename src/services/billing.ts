@@ -1,9 +1,35 @@
+import { randomUUID } from 'crypto';
 import dayjs from 'dayjs';
 import utc from 'dayjs/plugin/utc';
 import timezone from 'dayjs/plugin/timezone';
 import { BigQueryService } from './bigquery';
-import { ShopifyBillingService } from './shopifyBilling';
-import { BillingRecord, BillingConfig, ShopifySession, PageViewEvent, ShopBillingResult } from '../types/billing';
+import { ShopifyBillingService, buildIdempotencyKey } from './shopifyBilling';
+import { DEFAULT_PRICING_PLAN, applyCarryOver, calculateTieredAmount } from './pricing';
+import { SessionSelection, selectSessionsPerShop } from './sessionSelection';
+import { PubSubService } from './pubsub';
+import { BatchRunService } from './batchRun';
+import { NotificationRouter } from './notifier';
+import { detectAnomaly } from './anomalyDetection';
+import { assertValidDate } from '../utils/date';
+import {
+  BillingRecord,
+  BillingConfig,
+  ShopifySession,
+  PageViewEvent,
+  ShopBillingResult,
+  ChargeLedgerEntry,
+  PricingPlan,
+  DailyBillingResult,
+  BackfillResult,
+  BillingDateSummary,
+  ShopStatusRecord,
+  ShopStatusChange,
+  ChargeJob,
+  ChargeCompletion,
+  BatchRun,
+  BatchRunTrigger,
+  UsageChargeResult
+} from '../types/billing';
 
 dayjs.extend(utc);
 dayjs.extend(timezone);
@@ -11,49 +37,118 @@ dayjs.extend(timezone);
 export class BillingService {
   private bigQueryService: BigQueryService;
   private shopifyBillingService: ShopifyBillingService;
+  private pubSubService: PubSubService;
+  private notificationRouter: NotificationRouter;
+  private batchRunService: BatchRunService;
   private config: BillingConfig;
 
   constructor() {
     this.bigQueryService = new BigQueryService();
     this.shopifyBillingService = new ShopifyBillingService();
+    this.pubSubService = new PubSubService();
+    this.notificationRouter = new NotificationRouter();
+    this.batchRunService = new BatchRunService(this.bigQueryService);
     this.config = {
-      ratePerMillion: 10.0, // $10 per 1 million page views
-      timezone: 'Asia/Tokyo',
+      defaultPricingPlan: DEFAULT_PRICING_PLAN, // $10 per 1 million page views unless a shop has its own plan
+      minimumChargeAmount: parseFloat(process.env.MIN_CHARGE_AMOUNT || '0.50'), // Smaller amounts carry over to the next day
+      timezone: process.env.BILLING_TIMEZONE || 'Asia/Tokyo',
+      useShopTimezone: process.env.USE_SHOP_TIMEZONE === 'true',
+      shopStatusPreflight: process.env.SHOP_STATUS_PREFLIGHT !== 'false', // Check shops with Shopify before billing
+      chargeFanout: process.env.CHARGE_FANOUT === 'true', // Charge each shop in its own chargeWorker invocation
+      anomalyDetection: process.env.ANOMALY_DETECTION !== 'false',
+      anomalyBaselineDays: parseInt(process.env.ANOMALY_BASELINE_DAYS || '14'),
+      anomalyThresholds: {
+        multiplier: parseFloat(process.env.ANOMALY_MULTIPLIER || '5'),
+        absoluteThreshold: parseInt(process.env.ANOMALY_ABSOLUTE_THRESHOLD || '0'),
+        minBaselineDays: parseInt(process.env.ANOMALY_MIN_BASELINE_DAYS || '7'),
+        minPageViews: parseInt(process.env.ANOMALY_MIN_PAGE_VIEWS || '10000'),
+      },
+      approvalThreshold: parseFloat(process.env.APPROVAL_THRESHOLD || '0'),
+      maxBackfillDays: parseInt(process.env.MAX_BACKFILL_DAYS || '31'),
       billingTime: '01:00', // 25:00 = 01:00 next day
     };
   }
 
-  async processDailyBilling(): Promise<{
-    success: boolean;
-    targetDate: string;
-    skipped: boolean;
-    skipReason?: string;
-    activeSessions: number;
-    shopsWithPageViews: number;
-    billingRecordsGenerated: number;
-    totalPageViews: number;
-    totalAmount: number;
-    chargeResults?: any[];
-    shopResults?: ShopBillingResult[];
-    errorDetails?: {
-      message: string;
-      timestamp: string;
-      stack?: string;
-    };
-  }> {
+  /**
+   * With `dryRun`, every step runs against live data (eligibility, ledger, subscription and cap
+   * lookups) but nothing is written: no usage records, no ledger entries, no Shopify charges.
+   * Dry runs therefore skip billing.batch_runs too, and neither take nor wait for its lock.
+   */
+  async processDailyBilling(
+    targetDate: string = this.getTargetBillingDate(),
+    options: { dryRun?: boolean; trigger?: BatchRunTrigger } = {}
+  ): Promise<DailyBillingResult> {
+    if (options.dryRun) {
+      return this.runDailyBilling(targetDate, true);
+    }
+    return this.withBatchRun(targetDate, options.trigger ?? 'manual', run =>
+      this.runDailyBilling(targetDate, false, run.run_id)
+    );
+  }
+
+  /**
+   * Runs `task` while holding the billing.batch_runs lock for the date. When another run holds
+   * it, returns a skipped result carrying that run's ID instead. A run that dispatched charge
+   * jobs keeps the lock; finalizeChargeRun releases it once every job has completed.
+   */
+  private async withBatchRun(
+    targetDate: string,
+    trigger: BatchRunTrigger,
+    task: (run: BatchRun) => Promise<DailyBillingResult>
+  ): Promise<DailyBillingResult> {
+    const claim = await this.batchRunService.start(targetDate, trigger);
+    if (!claim.acquired) {
+      return {
+        success: true,
+        targetDate,
+        skipped: true,
+        skipReason: `Billing for ${targetDate} is already running (run ${claim.heldBy.run_id})`,
+        activeSessions: 0,
+        shopsWithPageViews: 0,
+        billingRecordsGenerated: 0,
+        totalPageViews: 0,
+        totalAmount: 0,
+        lockedByRunId: claim.heldBy.run_id
+      };
+    }
+
+    let result: DailyBillingResult | undefined;
+    try {
+      result = await task(claim.run);
+      return result;
+    } finally {
+      if (result?.dispatchedJobs) {
+        console.log(`Batch run ${claim.run.run_id} stays running until its ${result.dispatchedJobs} charge jobs complete`);
+      } else {
+        await this.batchRunService.finish(claim.run, result ?? {
+          success: false,
+          targetDate,
+          skipped: false,
+          activeSessions: 0,
+          shopsWithPageViews: 0,
+          billingRecordsGenerated: 0,
+          totalPageViews: 0,
+          totalAmount: 0
+        });
+      }
+    }
+  }
+
+  // batchRunId identifies the run's charge jobs when they are fanned out (dry runs have none)
+  private async runDailyBilling(targetDate: string, dryRun: boolean, batchRunId?: string): Promise<DailyBillingResult> {
     try {
-      console.log('Starting daily billing process...');
+      console.log(`Starting daily billing process${dryRun ? ' (dry run)' : ''}...`);
       
-      // Get yesterday's date in JST (since we run at 01:00 JST, we bill for previous day)
-      const targetDate = this.getTargetBillingDate();
+      // Defaults to yesterday in the billing timezone (since we run at 01:00 JST, we bill for previous day)
       console.log(`Processing billing for date: ${targetDate}`);
 
 
-      // Get active Shopify sessions
-      const sessions = await this.bigQueryService.getActiveShopifySessions();
-      console.log(`Found ${sessions.length} active Shopify sessions`);
+      // Get one session per shop, leaving out shops that are uninstalled, frozen or closed
+      const { sessions: candidateSessions, fallbacks, discarded: discardedSessions } = await this.loadSessions();
+      const { sessions: activeSessions, inactiveShops, shopStatusChanges } = await this.preflightShopStatuses(candidateSessions, fallbacks, dryRun);
+      console.log(`Found ${activeSessions.length} active Shopify sessions (${inactiveShops} inactive shops excluded)`);
 
-      if (sessions.length === 0) {
+      if (activeSessions.length === 0) {
         console.log('No active sessions found. Skipping billing.');
         return {
           success: true,
@@ -64,41 +159,114 @@ export class BillingService {
           shopsWithPageViews: 0,
           billingRecordsGenerated: 0,
           totalPageViews: 0,
-          totalAmount: 0
+          totalAmount: 0,
+          inactiveShops,
+          shopStatusChanges,
+          discardedSessions,
+          dryRun
         };
       }
 
-      // Get page view events for the target date
-      const pageViews = await this.bigQueryService.getPageViewsForDate(targetDate);
+      // Get page view events for the target date, leaving shops whose day has not ended to a later run
+      const shopTimezones = await this.loadShopTimezones(activeSessions);
+      const deferredShops = this.findShopsWithUnfinishedDay(activeSessions, targetDate, shopTimezones);
+      const sessions = activeSessions.filter(session => !deferredShops.has(session.shop));
+      if (deferredShops.size > 0) {
+        console.log(`Deferring ${deferredShops.size} shops whose ${targetDate} has not ended in their timezone`);
+      }
+      const pageViews = await this.bigQueryService.getPageViewsForDate(targetDate, this.config.timezone, shopTimezones);
       console.log(`Found page view data for ${pageViews.length} shops`);
 
       // Generate billing records
-      const billingRecords = this.generateBillingRecords(sessions, pageViews, targetDate);
+      const billingRecords = await this.generateBillingRecords(sessions, pageViews, targetDate, shopTimezones, dryRun);
       console.log(`Generated ${billingRecords.length} billing records`);
+
+      // Shops already charged for this date (scheduler retry, manual re-run) must never be charged twice
+      const ledgerEntries = await this.bigQueryService.getChargeLedgerEntries(targetDate);
+      const ledgerByShop = new Map(ledgerEntries.map(entry => [entry.shop, entry]));
+      const unchargedRecords = billingRecords.filter(record => !ledgerByShop.has(record.shop));
+      const alreadyChargedRecords = billingRecords.filter(record => ledgerByShop.has(record.shop));
+      if (alreadyChargedRecords.length > 0) {
+        console.log(`Skipping ${alreadyChargedRecords.length} shops already charged for ${targetDate}`);
+      }
+
+      // Shops an earlier run parked for this date, or an operator already decided on, keep that
+      // outcome: re-runs must not park them again (another row, another approval request) or charge them
+      const currentByShop = new Map(
+        (await this.bigQueryService.getCurrentBillingRecords(targetDate, targetDate, undefined, dryRun))
+          .map(record => [record.shop, record])
+      );
+      const isSettled = (record: BillingRecord) => {
+        const current = currentByShop.get(record.shop);
+        return !!current && (
+          current.shopify_billing_status === 'held' ||
+          current.shopify_billing_status === 'awaiting_approval' ||
+          !!current.hold_resolution
+        );
+      };
+      const settledRecords = unchargedRecords.filter(isSettled);
+      const openRecords = unchargedRecords.filter(record => !isSettled(record));
+      if (settledRecords.length > 0) {
+        console.log(`Leaving ${settledRecords.length} shops held, awaiting approval or resolved for ${targetDate} as they are`);
+      }
+
+      // Page-view spikes (tracking bugs, bot traffic) are held for an operator instead of charged,
+      // and amounts above the approval threshold wait for sign-off in Slack
+      const heldRecords = await this.holdAnomalousRecords(openRecords, targetDate, dryRun);
+      const approvalRecords = await this.parkChargesForApproval(
+        openRecords.filter(record => !heldRecords.some(held => held.shop === record.shop))
+      );
+      const parkedRecords = [...heldRecords, ...approvalRecords];
+      const recordsToCharge = openRecords.filter(record => !parkedRecords.some(parked => parked.shop === record.shop));
       
-      let chargeResults: any[] = [];
+      let chargeResults: UsageChargeResult[] = [];
       const shopResults: ShopBillingResult[] = [];
+      let runId: string | undefined;
+      let dispatchedJobs: number | undefined;
+
+      if (parkedRecords.length > 0) {
+        if (!dryRun) {
+          await this.bigQueryService.insertBillingRecords(parkedRecords);
+          if (approvalRecords.length > 0) {
+            await this.notificationRouter.notify({ kind: 'approval_request', records: approvalRecords });
+          }
+        }
+        parkedRecords.forEach(record => shopResults.push({
+          shop: record.shop,
+          pageViews: record.page_views,
+          billingAmount: record.billing_amount,
+          carryOverConsumed: record.carry_over_consumed,
+          bigQuerySaved: !dryRun,
+          shopifyStatus: record.shopify_billing_status === 'held' ? 'held' : 'awaiting_approval',
+          holdReason: record.hold_reason,
+          anomalyBaseline: record.anomaly_baseline,
+          approvalThreshold: record.approval_threshold
+        }));
+      }
 
       // Insert billing records to BigQuery first
-      if (billingRecords.length > 0) {
+      if (recordsToCharge.length > 0) {
         // Mark all records as pending
-        const recordsWithStatus = billingRecords.map(record => ({
+        const recordsWithStatus = recordsToCharge.map(record => ({
           ...record,
           shopify_billing_status: 'pending' as const,
         }));
         
         // Try to insert billing records to BigQuery and track results per shop
         try {
-          await this.bigQueryService.insertBillingRecords(recordsWithStatus);
-          console.log(`Inserted ${billingRecords.length} billing records to BigQuery`);
+          if (!dryRun) {
+            await this.bigQueryService.insertBillingRecords(recordsWithStatus);
+            console.log(`Inserted ${recordsToCharge.length} billing records to BigQuery`);
+          }
           
           // Initialize shop results with successful BigQuery saves
-          billingRecords.forEach(record => {
+          recordsToCharge.forEach(record => {
             shopResults.push({
               shop: record.shop,
               pageViews: record.page_views,
               billingAmount: record.billing_amount,
-              bigQuerySaved: true,
+              carryOverConsumed: record.carry_over_consumed,
+              bigQuerySaved: !dryRun,
               shopifyStatus: 'pending'
             });
           });
@@ -106,7 +274,7 @@ export class BillingService {
           console.error('Failed to insert billing records to BigQuery:', bigQueryError);
           
           // Initialize shop results with failed BigQuery saves
-          billingRecords.forEach(record => {
+          recordsToCharge.forEach(record => {
             shopResults.push({
               shop: record.shop,
               pageViews: record.page_views,
@@ -121,51 +289,91 @@ export class BillingService {
           throw bigQueryError;
         }
         
-        // Process Shopify charges
-        console.log('Processing Shopify charges...');
-        const chargeMap = new Map(
-          billingRecords.map(record => [record.shop, record.billing_amount])
-        );
-        
-        chargeResults = await this.shopifyBillingService.chargeShops(sessions, chargeMap);
+        if (!dryRun && this.config.chargeFanout && recordsToCharge.some(record => record.billing_amount > 0)) {
+          // One chargeWorker invocation per shop; finalizeBilling reports the outcome once all complete
+          runId = batchRunId ?? randomUUID();
+          dispatchedJobs = await this.dispatchChargeJobs(runId, targetDate, recordsToCharge);
+          shopResults
+            .filter(shopResult => shopResult.billingAmount <= 0)
+            .forEach(shopResult => { shopResult.shopifyStatus = 'skipped'; });
+        } else {
+          // Process Shopify charges
+          console.log('Processing Shopify charges...');
+          const chargeMap = new Map(
+            recordsToCharge.map(record => [record.shop, record.billing_amount])
+          );
+          const sessionsToCharge = sessions.filter(session => chargeMap.has(session.shop));
         
-        // Create new records with Shopify charge results for insertion (avoiding UPDATE due to streaming buffer)
-        const updatedRecords: BillingRecord[] = billingRecords.map(record => {
-          const chargeResult = chargeResults.find(r => r.shop === record.shop);
-          if (chargeResult) {
-            // Map 'skipped' status to 'pending' for compatibility with BillingRecord type
-            const billingStatus: 'pending' | 'success' | 'failed' = 
-              chargeResult.status === 'skipped' ? 'pending' : chargeResult.status;
-            
-            return {
-              ...record,
-              shopify_charge_id: chargeResult.chargeId,
-              shopify_billing_status: billingStatus,
-              shopify_error_message: chargeResult.error,
-              shopify_processed_at: chargeResult.status === 'success' ? new Date().toISOString() : undefined,
-            };
+          const fxRates = await this.loadFxRates(targetDate);
+          chargeResults = await this.shopifyBillingService.chargeShops(
+            sessionsToCharge,
+            chargeMap,
+            targetDate,
+            { fxRates, fallbackSessions: fallbacks, dryRun }
+          );
+          if (!dryRun) {
+            await this.recordSuccessfulCharges(chargeResults, targetDate);
           }
-          return record;
-        });
+        
+          // Create new records with Shopify charge results for insertion (avoiding UPDATE due to streaming buffer)
+          const updatedRecords = this.buildChargedRecords(recordsToCharge, chargeResults);
 
-        // Update shop results with Shopify charge results
-        shopResults.forEach(shopResult => {
-          const chargeResult = chargeResults.find(r => r.shop === shopResult.shop);
-          if (chargeResult) {
-            shopResult.shopifyStatus = chargeResult.status as 'pending' | 'success' | 'failed' | 'skipped';
-            shopResult.shopifyChargeId = chargeResult.chargeId;
-            shopResult.shopifyError = chargeResult.error;
-          }
-        });
+          // Update shop results with Shopify charge results
+          this.applyChargeResults(shopResults, chargeResults);
         
-        // Insert updated records as new rows instead of UPDATE to avoid streaming buffer constraints
-        await this.bigQueryService.insertBillingRecords(updatedRecords);
-        console.log('Inserted updated billing records with Shopify charge results');
-        console.log('Daily billing process completed successfully');
+          // Insert updated records as new rows instead of UPDATE to avoid streaming buffer constraints
+          if (!dryRun) {
+            await this.bigQueryService.insertBillingRecords(updatedRecords);
+            console.log('Inserted updated billing records with Shopify charge results');
+          }
+          console.log(`Daily billing process completed successfully${dryRun ? ' (dry run, nothing written)' : ''}`);
+        }
       } else {
         console.log('No billing records to insert');
       }
 
+      // Report settled shops with the status an earlier run or operator left them in
+      settledRecords.forEach(record => {
+        const current = currentByShop.get(record.shop) as BillingRecord;
+        shopResults.push({
+          shop: record.shop,
+          pageViews: current.page_views,
+          billingAmount: current.billing_amount,
+          carryOverConsumed: current.carry_over_consumed,
+          bigQuerySaved: true,
+          shopifyChargeId: current.shopify_charge_id,
+          shopifyStatus: current.shopify_billing_status ?? 'pending',
+          shopifyError: current.shopify_error_message,
+          errorCategory: current.shopify_error_category,
+          holdReason: current.hold_reason,
+          anomalyBaseline: current.anomaly_baseline,
+          approvalThreshold: current.approval_threshold
+        });
+      });
+
+      // Report shops charged by an earlier run as already charged rather than re-billing them
+      alreadyChargedRecords.forEach(record => {
+        const ledgerEntry = ledgerByShop.get(record.shop) as ChargeLedgerEntry;
+        chargeResults.push({
+          shop: record.shop,
+          chargeId: ledgerEntry.shopify_charge_id,
+          status: 'already_charged',
+          amount: record.billing_amount,
+          chargedAmount: ledgerEntry.amount,
+          currencyCode: ledgerEntry.currency_code || 'USD',
+        });
+        shopResults.push({
+          shop: record.shop,
+          pageViews: record.page_views,
+          billingAmount: record.billing_amount,
+          bigQuerySaved: true,
+          shopifyChargeId: ledgerEntry.shopify_charge_id,
+          shopifyStatus: 'already_charged',
+          chargedAmount: ledgerEntry.amount,
+          currencyCode: ledgerEntry.currency_code || 'USD'
+        });
+      });
+
       // Log summary
       const totalAmount = billingRecords.reduce((sum, record) => sum + record.billing_amount, 0);
       const totalPageViews = billingRecords.reduce((sum, record) => sum + record.page_views, 0);
@@ -185,7 +393,15 @@ export class BillingService {
         totalPageViews,
         totalAmount,
         chargeResults,
-        shopResults
+        shopResults,
+        currentSummary: dryRun ? undefined : await this.loadCurrentSummary(targetDate),
+        inactiveShops,
+        deferredShops: deferredShops.size,
+        shopStatusChanges,
+        discardedSessions,
+        runId,
+        dispatchedJobs,
+        dryRun
       };
 
     } catch (error) {
@@ -200,9 +416,9 @@ export class BillingService {
         
         // If we have sessions and page views data, create failed shop results
         try {
-          const sessions = await this.bigQueryService.getActiveShopifySessions();
-          const pageViews = await this.bigQueryService.getPageViewsForDate(this.getTargetBillingDate());
-          const billingRecords = this.generateBillingRecords(sessions, pageViews, this.getTargetBillingDate());
+          const { sessions } = await this.loadSessions();
+          const pageViews = await this.bigQueryService.getPageViewsForDate(targetDate, this.config.timezone);
+          const billingRecords = await this.generateBillingRecords(sessions, pageViews, targetDate);
           
           shopResults = billingRecords.map(record => ({
             shop: record.shop,
@@ -221,7 +437,7 @@ export class BillingService {
       // Return error details instead of throwing
       return {
         success: false,
-        targetDate: this.getTargetBillingDate(),
+        targetDate,
         skipped: false,
         skipReason: `Process failed: ${errorContext}`,
         activeSessions: 0,
@@ -239,6 +455,778 @@ export class BillingService {
     }
   }
 
+  /**
+   * Runs the full daily pipeline for every date in [startDate, endDate] that no completed run
+   * has processed yet (see BigQueryService.getBilledDates), oldest first.
+   */
+  async processBackfill(
+    startDate: string,
+    endDate: string,
+    trigger: BatchRunTrigger = 'manual'
+  ): Promise<BackfillResult> {
+    assertValidDate(startDate, 'startDate');
+    assertValidDate(endDate, 'endDate');
+
+    const start = dayjs.tz(startDate, this.config.timezone);
+    const end = dayjs.tz(endDate, this.config.timezone);
+    const latestBillableDate = this.getTargetBillingDate();
+
+    if (start.isAfter(end)) {
+      throw new Error(`Backfill start date ${startDate} is after end date ${endDate}`);
+    }
+    if (end.format('YYYY-MM-DD') > latestBillableDate) {
+      throw new Error(`Backfill end date ${endDate} is after the latest billable date ${latestBillableDate}`);
+    }
+    if (end.diff(start, 'day') + 1 > this.config.maxBackfillDays) {
+      throw new Error(`Backfill range ${startDate} - ${endDate} is longer than MAX_BACKFILL_DAYS (${this.config.maxBackfillDays} days)`);
+    }
+
+    const billedDates = new Set(await this.bigQueryService.getBilledDates(startDate, endDate));
+    const missingDates: string[] = [];
+    for (let date = start; !date.isAfter(end); date = date.add(1, 'day')) {
+      const formatted = date.format('YYYY-MM-DD');
+      if (!billedDates.has(formatted)) {
+        missingDates.push(formatted);
+      }
+    }
+    console.log(`Backfill ${startDate} - ${endDate}: ${missingDates.length} dates not yet billed`);
+
+    const results: DailyBillingResult[] = [];
+    for (const date of missingDates) {
+      results.push(await this.processDailyBilling(date, { trigger }));
+    }
+
+    return {
+      success: results.every(result => result.success),
+      startDate,
+      endDate,
+      missingDates,
+      results
+    };
+  }
+
+  /**
+   * Scheduled catch-up: backfills the last CATCH_UP_DAYS days up to and including yesterday.
+   * Returns null when catch-up is disabled.
+   */
+  async processCatchUp(): Promise<BackfillResult | null> {
+    const catchUpDays = parseInt(process.env.CATCH_UP_DAYS || '0');
+    if (!catchUpDays || catchUpDays <= 0) {
+      return null;
+    }
+
+    const endDate = this.getTargetBillingDate();
+    const startDate = dayjs.tz(endDate, this.config.timezone)
+      .subtract(catchUpDays - 1, 'day')
+      .format('YYYY-MM-DD');
+    return this.processBackfill(startDate, endDate, 'scheduled');
+  }
+
+  /**
+   * Re-attempts only the shops whose latest usage_records status for the date is `failed`,
+   * appending the new outcome rows the same way processDailyBilling does. Holds the
+   * billing.batch_runs lock for the date, so it never runs alongside a billing run for it.
+   */
+  async retryFailedCharges(targetDate: string): Promise<DailyBillingResult> {
+    return this.withBatchRun(targetDate, 'retry', () => this.runFailedChargeRetry(targetDate));
+  }
+
+  private async runFailedChargeRetry(targetDate: string): Promise<DailyBillingResult> {
+    console.log(`Retrying failed charges for date: ${targetDate}`);
+
+    const latestRecords = await this.bigQueryService.getCurrentBillingRecords(targetDate);
+    const ledgerEntries = await this.bigQueryService.getChargeLedgerEntries(targetDate);
+    const chargedShops = new Set(ledgerEntries.map(entry => entry.shop));
+    const failedRecords = latestRecords.filter(record =>
+      record.shopify_billing_status === 'failed' && !chargedShops.has(record.shop)
+    );
+    console.log(`Found ${failedRecords.length} shops with failed charges`);
+
+    if (failedRecords.length === 0) {
+      return {
+        success: true,
+        targetDate,
+        skipped: true,
+        skipReason: 'No failed charges found',
+        activeSessions: 0,
+        shopsWithPageViews: 0,
+        billingRecordsGenerated: 0,
+        totalPageViews: 0,
+        totalAmount: 0
+      };
+    }
+
+    const failedShops = new Set(failedRecords.map(record => record.shop));
+    const { sessions: allSessions, fallbacks } = await this.loadSessions();
+    const sessions = allSessions.filter(session => failedShops.has(session.shop));
+
+    // Strip the previous attempt's outcome so the appended rows only carry this retry's result
+    const recordsToRetry: BillingRecord[] = failedRecords.map(record => this.withoutChargeOutcome(record));
+    const chargeMap = new Map(recordsToRetry.map(record => [record.shop, record.billing_amount]));
+
+    const fxRates = await this.loadFxRates(targetDate);
+    const chargeResults = await this.shopifyBillingService.chargeShops(
+      sessions,
+      chargeMap,
+      targetDate,
+      { fxRates, fallbackSessions: fallbacks }
+    );
+    await this.recordSuccessfulCharges(chargeResults, targetDate);
+
+    // Shops whose session disappeared since the original run cannot be retried
+    recordsToRetry
+      .filter(record => !chargeResults.some(result => result.shop === record.shop))
+      .forEach(record => chargeResults.push({
+        shop: record.shop,
+        status: 'failed',
+        error: 'No active session found for shop',
+        errorCategory: 'auth',
+        amount: record.billing_amount,
+      }));
+
+    const shopResults: ShopBillingResult[] = recordsToRetry.map(record => ({
+      shop: record.shop,
+      pageViews: record.page_views,
+      billingAmount: record.billing_amount,
+      carryOverConsumed: record.carry_over_consumed,
+      bigQuerySaved: true,
+      shopifyStatus: 'pending'
+    }));
+    this.applyChargeResults(shopResults, chargeResults);
+
+    const updatedRecords = this.buildChargedRecords(recordsToRetry, chargeResults);
+    try {
+      await this.bigQueryService.insertBillingRecords(updatedRecords);
+    } catch (bigQueryError) {
+      console.error('Failed to insert retried billing records to BigQuery:', bigQueryError);
+      shopResults.forEach(shopResult => {
+        shopResult.bigQuerySaved = false;
+        shopResult.bigQueryError = bigQueryError instanceof Error ? bigQueryError.message : 'Unknown BigQuery error';
+      });
+    }
+
+    return {
+      success: true,
+      targetDate,
+      skipped: false,
+      activeSessions: sessions.length,
+      shopsWithPageViews: recordsToRetry.filter(record => record.page_views > 0).length,
+      billingRecordsGenerated: recordsToRetry.length,
+      totalPageViews: recordsToRetry.reduce((sum, record) => sum + record.page_views, 0),
+      totalAmount: recordsToRetry.reduce((sum, record) => sum + record.billing_amount, 0),
+      chargeResults,
+      shopResults,
+      currentSummary: await this.loadCurrentSummary(targetDate)
+    };
+  }
+
+  /**
+   * Resolves a day parked as `held` (anomaly detection) or `awaiting_approval`: charges it as
+   * computed or, with `amount`, at an operator-adjusted USD amount. An amount of 0 rejects it: nothing
+   * is charged and the day is closed as `rejected`. The row appended keeps the parked amount, the
+   * decision and who made it for audit.
+   */
+  async resolveHeldCharge(
+    shop: string,
+    targetDate: string,
+    options: { amount?: number; resolvedBy?: string } = {}
+  ): Promise<DailyBillingResult> {
+    assertValidDate(targetDate, 'targetDate');
+    console.log(`Resolving held charge for ${shop} (${targetDate})`);
+
+    const [heldRecord] = (await this.bigQueryService.getCurrentBillingRecords(targetDate, targetDate, shop))
+      .filter(record => record.shopify_billing_status === 'held' || record.shopify_billing_status === 'awaiting_approval');
+    const ledgerEntry = (await this.bigQueryService.getChargeLedgerEntries(targetDate))
+      .find(entry => entry.shop === shop);
+
+    if (!heldRecord || ledgerEntry) {
+      return {
+        success: true,
+        targetDate,
+        skipped: true,
+        skipReason: ledgerEntry ? `${shop} is already charged for ${targetDate}` : `No held charge found for ${shop} on ${targetDate}`,
+        activeSessions: 0,
+        shopsWithPageViews: 0,
+        billingRecordsGenerated: 0,
+        totalPageViews: 0,
+        totalAmount: 0
+      };
+    }
+
+    const record: BillingRecord = {
+      ...this.withoutChargeOutcome(heldRecord),
+      billing_amount: options.amount ?? heldRecord.billing_amount,
+      held_amount: heldRecord.billing_amount,
+      hold_resolution: options.amount === 0 ? 'rejected' :
+        options.amount !== undefined && options.amount !== heldRecord.billing_amount ? 'adjusted' :
+        heldRecord.shopify_billing_status === 'awaiting_approval' ? 'approved' : 'released',
+      hold_resolved_by: options.resolvedBy,
+    };
+
+    if (record.hold_resolution === 'rejected') {
+      return this.rejectHeldCharge(record);
+    }
+
+    const { sessions, fallbacks } = selectSessionsPerShop(await this.bigQueryService.getActiveShopifySessions(shop));
+    let chargeResult: UsageChargeResult;
+    if (sessions.length === 0) {
+      chargeResult = {
+        shop,
+        status: 'failed',
+        error: 'No active session found for shop',
+        errorCategory: 'auth',
+        amount: record.billing_amount,
+      };
+    } else {
+      const fxRates = await this.loadFxRates(targetDate);
+      [chargeResult] = await this.shopifyBillingService.chargeShops(
+        sessions,
+        new Map([[shop, record.billing_amount]]),
+        targetDate,
+        { fxRates, fallbackSessions: fallbacks }
+      );
+      await this.recordSuccessfulCharges([chargeResult], targetDate);
+    }
+
+    const shopResults: ShopBillingResult[] = [{
+      shop,
+      pageViews: record.page_views,
+      billingAmount: record.billing_amount,
+      carryOverConsumed: record.carry_over_consumed,
+      bigQuerySaved: true,
+      shopifyStatus: 'pending',
+      holdReason: record.hold_reason,
+      anomalyBaseline: record.anomaly_baseline
+    }];
+    this.applyChargeResults(shopResults, [chargeResult]);
+
+    try {
+      await this.bigQueryService.insertBillingRecords(this.buildChargedRecords([record], [chargeResult]));
+    } catch (bigQueryError) {
+      console.error('Failed to insert released billing record to BigQuery:', bigQueryError);
+      shopResults[0].bigQuerySaved = false;
+      shopResults[0].bigQueryError = bigQueryError instanceof Error ? bigQueryError.message : 'Unknown BigQuery error';
+    }
+
+    return {
+      success: true,
+      targetDate,
+      skipped: false,
+      activeSessions: sessions.length,
+      shopsWithPageViews: record.page_views > 0 ? 1 : 0,
+      billingRecordsGenerated: 1,
+      totalPageViews: record.page_views,
+      totalAmount: record.billing_amount,
+      chargeResults: [chargeResult],
+      shopResults,
+      currentSummary: await this.loadCurrentSummary(targetDate)
+    };
+  }
+
+  // A final status of its own, so neither re-runs nor catch-up treat the day as unbilled
+  private async rejectHeldCharge(record: BillingRecord): Promise<DailyBillingResult> {
+    console.log(`Rejecting held charge for ${record.shop} (${record.billing_date})`);
+
+    // Only the day's own usage is rejected: the balance earlier days carried into it was never
+    // charged, so the rejected row carries it on to the next billing day instead of consuming it
+    const rejectedRecord: BillingRecord = {
+      ...record,
+      shopify_billing_status: 'rejected',
+      carry_over_consumed: 0,
+      carry_over_balance: record.carry_over_consumed,
+    };
+
+    const shopResult: ShopBillingResult = {
+      shop: record.shop,
+      pageViews: record.page_views,
+      billingAmount: 0,
+      carryOverConsumed: 0,
+      bigQuerySaved: true,
+      shopifyStatus: 'rejected',
+      holdReason: record.hold_reason,
+      anomalyBaseline: record.anomaly_baseline,
+      approvalThreshold: record.approval_threshold
+    };
+
+    try {
+      await this.bigQueryService.insertBillingRecords([rejectedRecord]);
+    } catch (bigQueryError) {
+      console.error('Failed to insert rejected billing record to BigQuery:', bigQueryError);
+      shopResult.bigQuerySaved = false;
+      shopResult.bigQueryError = bigQueryError instanceof Error ? bigQueryError.message : 'Unknown BigQuery error';
+    }
+
+    return {
+      success: true,
+      targetDate: record.billing_date,
+      skipped: false,
+      activeSessions: 0,
+      shopsWithPageViews: record.page_views > 0 ? 1 : 0,
+      billingRecordsGenerated: 1,
+      totalPageViews: record.page_views,
+      totalAmount: 0,
+      shopResults: [shopResult],
+      currentSummary: await this.loadCurrentSummary(record.billing_date)
+    };
+  }
+
+  /**
+   * Flags records whose page views are far above the shop's trailing median (or above the
+   * absolute threshold) and returns them as `held` rows. Zero-amount days are never held.
+   */
+  private async holdAnomalousRecords(
+    records: BillingRecord[],
+    targetDate: string,
+    dryRun: boolean = false
+  ): Promise<BillingRecord[]> {
+    if (!this.config.anomalyDetection || !records.some(record => record.billing_amount > 0)) {
+      return [];
+    }
+
+    const historyByShop = new Map<string, number[]>();
+    (await this.bigQueryService.getPageViewHistory(targetDate, this.config.anomalyBaselineDays, dryRun)).forEach(row => {
+      historyByShop.set(row.shop, [...(historyByShop.get(row.shop) || []), Number(row.page_views)]);
+    });
+
+    const heldRecords: BillingRecord[] = [];
+    records
+      .filter(record => record.billing_amount > 0)
+      .forEach(record => {
+        const anomaly = detectAnomaly(record.page_views, historyByShop.get(record.shop) || [], this.config.anomalyThresholds);
+        if (anomaly) {
+          console.log(`Holding charge for ${record.shop}: ${anomaly.reason}`);
+          heldRecords.push({
+            ...record,
+            shopify_billing_status: 'held',
+            hold_reason: anomaly.reason,
+            anomaly_baseline: anomaly.baseline ?? undefined,
+          });
+        }
+      });
+
+    return heldRecords;
+  }
+
+  /**
+   * Parks charges above the shop's approval threshold (its own from billing.shop_approval_thresholds,
+   * otherwise APPROVAL_THRESHOLD) as `awaiting_approval` rows.
+   */
+  private async parkChargesForApproval(records: BillingRecord[]): Promise<BillingRecord[]> {
+    if (!records.some(record => record.billing_amount > 0)) {
+      return [];
+    }
+
+    const shopThresholds = new Map(
+      (await this.bigQueryService.getShopApprovalThresholds()).map(row => [row.shop, Number(row.threshold_amount)])
+    );
+
+    return records
+      .map(record => ({ record, threshold: shopThresholds.get(record.shop) ?? this.config.approvalThreshold }))
+      .filter(({ record, threshold }) => threshold > 0 && record.billing_amount > threshold)
+      .map(({ record, threshold }) => {
+        console.log(`Charge for ${record.shop} ($${record.billing_amount}) exceeds approval threshold $${threshold}`);
+        return { ...record, shopify_billing_status: 'awaiting_approval' as const, approval_threshold: threshold };
+      });
+  }
+
+  // Billing and hold fields of a record without the outcome of any earlier Shopify charge attempt;
+  // a retried day that an operator released or approved must stay marked as resolved
+  private withoutChargeOutcome(record: BillingRecord): BillingRecord {
+    return {
+      shop: record.shop,
+      billing_date: record.billing_date,
+      page_views: record.page_views,
+      billing_amount: record.billing_amount,
+      pricing_plan_id: record.pricing_plan_id,
+      pricing_tier: record.pricing_tier,
+      raw_amount: record.raw_amount,
+      carry_over_consumed: record.carry_over_consumed,
+      carry_over_balance: record.carry_over_balance,
+      billing_timezone: record.billing_timezone,
+      hold_reason: record.hold_reason,
+      anomaly_baseline: record.anomaly_baseline,
+      approval_threshold: record.approval_threshold,
+      held_amount: record.held_amount,
+      hold_resolution: record.hold_resolution,
+      hold_resolved_by: record.hold_resolved_by,
+    };
+  }
+
+  /**
+   * Checks each shop with Shopify before billing and stores the result in billing.shop_statuses.
+   * Every shop is checked on every run, so a frozen store that is unfrozen is billed again.
+   */
+  private async preflightShopStatuses(
+    sessions: ShopifySession[],
+    fallbacks: Map<string, ShopifySession[]>,
+    dryRun: boolean = false
+  ): Promise<{
+    sessions: ShopifySession[];
+    inactiveShops: number;
+    shopStatusChanges: ShopStatusChange[];
+  }> {
+    if (!this.config.shopStatusPreflight) {
+      return { sessions, inactiveShops: 0, shopStatusChanges: [] };
+    }
+
+    const latestStatuses = new Map(
+      (await this.bigQueryService.getLatestShopStatuses()).map(record => [record.shop, record])
+    );
+    const checkResults = await this.shopifyBillingService.checkShopStatuses(sessions, fallbacks);
+
+    const checkedAt = new Date().toISOString();
+    const checks: ShopStatusRecord[] = [];
+    const shopStatusChanges: ShopStatusChange[] = [];
+    const activeSessions = new Map<string, ShopifySession>();
+
+    sessions.forEach(session => {
+      const previous = latestStatuses.get(session.shop);
+      const checkResult = checkResults.get(session.shop);
+      const checkedStatus = checkResult?.status ?? null;
+      // An inconclusive check keeps the last known status; unknown shops are billed as usual
+      const status = checkedStatus ?? previous?.status ?? 'active';
+      if (status === 'active') {
+        // An older session may have answered when the newest token was rejected
+        activeSessions.set(session.shop, checkResult?.session ?? session);
+      }
+      if (checkedStatus) {
+        checks.push({ shop: session.shop, status, session_updated_at: session.updated_at, checked_at: checkedAt });
+      }
+      if (status !== (previous?.status ?? 'active')) {
+        shopStatusChanges.push({ shop: session.shop, previousStatus: previous?.status, status });
+      }
+    });
+
+    try {
+      if (!dryRun) {
+        await this.bigQueryService.insertShopStatuses(checks);
+      }
+    } catch (error) {
+      console.error('Failed to store shop statuses:', error);
+    }
+
+    const filteredSessions = sessions
+      .filter(session => activeSessions.has(session.shop))
+      .map(session => activeSessions.get(session.shop) as ShopifySession);
+    shopStatusChanges.forEach(change =>
+      console.log(`Shop status changed for ${change.shop}: ${change.previousStatus ?? 'unknown'} -> ${change.status}`)
+    );
+
+    return {
+      sessions: filteredSessions,
+      inactiveShops: sessions.length - filteredSessions.length,
+      shopStatusChanges,
+    };
+  }
+
+  private async loadSessions(): Promise<SessionSelection> {
+    const selection = selectSessionsPerShop(await this.bigQueryService.getActiveShopifySessions());
+    if (selection.discarded.length > 0) {
+      console.log(`Discarded ${selection.discarded.length} duplicate or online sessions`);
+    }
+    return selection;
+  }
+
+  private async loadShopTimezones(sessions: ShopifySession[]): Promise<Map<string, string>> {
+    if (!this.config.useShopTimezone) {
+      return new Map();
+    }
+
+    const shopTimezones = await this.shopifyBillingService.getShopTimezones(sessions);
+    console.log(`Using shop timezones for ${shopTimezones.size} of ${sessions.length} shops`);
+    return shopTimezones;
+  }
+
+  /**
+   * Shops whose billing date is still running in their own timezone. The 01:00 JST run bills
+   * yesterday in Japan, which has not ended yet for shops west of it; they are billed by a later
+   * run for the date (catch-up or a manual re-run) rather than for part of the day.
+   */
+  private findShopsWithUnfinishedDay(
+    sessions: ShopifySession[],
+    targetDate: string,
+    shopTimezones: Map<string, string>
+  ): Set<string> {
+    if (!this.config.useShopTimezone) {
+      return new Set();
+    }
+
+    const now = dayjs();
+    return new Set(sessions
+      .filter(session => {
+        const dayEnd = dayjs.tz(targetDate, shopTimezones.get(session.shop) ?? this.config.timezone).add(1, 'day');
+        return dayEnd.isAfter(now);
+      })
+      .map(session => session.shop));
+  }
+
+  /**
+   * Charges a single shop for a job published by processDailyBilling, appends the outcome
+   * to usage_records and billing.charge_completions, and announces it to the finalizer.
+   * Safe to run more than once per job: the ledger and Shopify's idempotency key stop a second charge.
+   */
+  async processChargeJob(job: ChargeJob): Promise<ChargeCompletion> {
+    const { record, billing_date: targetDate } = job;
+    console.log(`Processing charge job for ${record.shop} (${targetDate}, run ${job.run_id})`);
+
+    const ledgerEntry = (await this.bigQueryService.getChargeLedgerEntries(targetDate))
+      .find(entry => entry.shop === record.shop);
+
+    let chargeResult: UsageChargeResult;
+    if (ledgerEntry) {
+      chargeResult = {
+        shop: record.shop,
+        chargeId: ledgerEntry.shopify_charge_id,
+        status: 'already_charged',
+        amount: record.billing_amount,
+        chargedAmount: ledgerEntry.amount,
+        currencyCode: ledgerEntry.currency_code || 'USD',
+      };
+
+      // An earlier attempt charged the shop but may have stopped before saving the outcome
+      const [current] = await this.bigQueryService.getCurrentBillingRecords(targetDate, targetDate, record.shop);
+      if (current?.shopify_billing_status !== 'success' && current?.shopify_billing_status !== 'capped') {
+        await this.bigQueryService.insertBillingRecords(
+          this.buildChargedRecords([record], [{ ...chargeResult, status: 'success' }])
+        );
+      }
+    } else {
+      const { sessions, fallbacks } = selectSessionsPerShop(
+        await this.bigQueryService.getActiveShopifySessions(record.shop)
+      );
+
+      if (sessions.length === 0) {
+        chargeResult = {
+          shop: record.shop,
+          status: 'failed',
+          error: 'No active session found for shop',
+          errorCategory: 'auth',
+          amount: record.billing_amount,
+        };
+      } else {
+        const fxRates = await this.loadFxRates(targetDate);
+        [chargeResult] = await this.shopifyBillingService.chargeShops(
+          sessions,
+          new Map([[record.shop, record.billing_amount]]),
+          targetDate,
+          { fxRates, fallbackSessions: fallbacks }
+        );
+        await this.recordSuccessfulCharges([chargeResult], targetDate);
+      }
+
+      await this.bigQueryService.insertBillingRecords(this.buildChargedRecords([record], [chargeResult]));
+    }
+
+    return this.completeChargeJob(job, chargeResult);
+  }
+
+  /**
+   * Completes a job whose worker failed before it could: the shop's day is recorded as `failed`
+   * (so /retryFailedCharges picks it up) and the run still reaches its expected job count.
+   * The worker is not retried by Pub/Sub, so without this the run would never be reported.
+   */
+  async failChargeJob(job: ChargeJob, error: unknown): Promise<ChargeCompletion> {
+    const chargeResult: UsageChargeResult = {
+      shop: job.record.shop,
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      errorCategory: 'unknown',
+      amount: job.record.billing_amount,
+    };
+
+    try {
+      await this.bigQueryService.insertBillingRecords(this.buildChargedRecords([job.record], [chargeResult]));
+    } catch (bigQueryError) {
+      console.error(`Failed to record the failed charge job for ${job.record.shop}:`, bigQueryError);
+    }
+    return this.completeChargeJob(job, chargeResult);
+  }
+
+  private async completeChargeJob(job: ChargeJob, chargeResult: UsageChargeResult): Promise<ChargeCompletion> {
+    const completion: ChargeCompletion = {
+      run_id: job.run_id,
+      billing_date: job.billing_date,
+      expected_jobs: job.expected_jobs,
+      shop: job.record.shop,
+      page_views: job.record.page_views,
+      billing_amount: job.record.billing_amount,
+      status: chargeResult.status,
+      charge_id: chargeResult.chargeId,
+      error_message: chargeResult.error,
+      error_category: chargeResult.errorCategory,
+      charged_amount: chargeResult.chargedAmount,
+      currency_code: chargeResult.currencyCode,
+      completed_at: new Date().toISOString(),
+    };
+
+    await this.bigQueryService.insertChargeCompletions([completion]);
+    await this.pubSubService.publishChargeCompletion(completion);
+    return completion;
+  }
+
+  /**
+   * Called for every completion event. Returns the run's result once every shop has completed.
+   * Completions can land in any order, and several events may see the run complete (late rows,
+   * redelivered jobs); the conditional batch_runs update lets exactly one of them report.
+   */
+  async finalizeChargeRun(completion: ChargeCompletion): Promise<DailyBillingResult | null> {
+    // A redelivered job finds its charge in the ledger; the first completion holds the real outcome
+    const firstByShop = new Map<string, ChargeCompletion>();
+    (await this.bigQueryService.getChargeCompletions(completion.run_id)).forEach(item => {
+      if (!firstByShop.has(item.shop)) {
+        firstByShop.set(item.shop, item);
+      }
+    });
+
+    if (firstByShop.size < completion.expected_jobs) {
+      console.log(`Run ${completion.run_id}: ${firstByShop.size}/${completion.expected_jobs} charge jobs completed`);
+      return null;
+    }
+
+    const completions = [...firstByShop.values()];
+    const shopResults: ShopBillingResult[] = completions.map(item => ({
+      shop: item.shop,
+      pageViews: item.page_views,
+      billingAmount: item.billing_amount,
+      bigQuerySaved: true,
+      shopifyChargeId: item.charge_id,
+      shopifyStatus: item.status,
+      shopifyError: item.error_message,
+      errorCategory: item.error_category,
+      chargedAmount: item.charged_amount,
+      currencyCode: item.currency_code,
+    }));
+    const chargeResults: UsageChargeResult[] = completions.map(item => ({
+      shop: item.shop,
+      chargeId: item.charge_id,
+      status: item.status === 'pending' ? 'skipped' : item.status,
+      error: item.error_message,
+      errorCategory: item.error_category,
+      amount: item.billing_amount,
+      chargedAmount: item.charged_amount,
+      currencyCode: item.currency_code,
+    }));
+
+    const result: DailyBillingResult = {
+      success: true,
+      targetDate: completion.billing_date,
+      skipped: false,
+      activeSessions: completion.expected_jobs,
+      shopsWithPageViews: completions.filter(item => item.page_views > 0).length,
+      billingRecordsGenerated: completions.length,
+      totalPageViews: completions.reduce((sum, item) => sum + item.page_views, 0),
+      totalAmount: completions.reduce((sum, item) => sum + item.billing_amount, 0),
+      chargeResults,
+      shopResults,
+      currentSummary: await this.loadCurrentSummary(completion.billing_date),
+      runId: completion.run_id,
+      dispatchedJobs: completion.expected_jobs
+    };
+
+    // Releases the batch_runs lock the run kept while its jobs ran; only the call that finishes
+    // the run reports it
+    return await this.batchRunService.finishDispatched(completion.run_id, result) ? result : null;
+  }
+
+  // Zero-amount records need no charge; their pending rows already hold the carry-over
+  private async dispatchChargeJobs(runId: string, targetDate: string, records: BillingRecord[]): Promise<number> {
+    const billableRecords = records.filter(record => record.billing_amount > 0);
+    const jobs: ChargeJob[] = billableRecords.map(record => ({
+      run_id: runId,
+      billing_date: targetDate,
+      expected_jobs: billableRecords.length,
+      record,
+    }));
+
+    await this.pubSubService.publishChargeJobs(jobs);
+    console.log(`Dispatched ${jobs.length} charge jobs for ${targetDate} (run ${runId})`);
+    return jobs.length;
+  }
+
+  // The summary is informational only; a failed read must not turn a completed run into a failure
+  private async loadCurrentSummary(targetDate: string): Promise<BillingDateSummary | undefined> {
+    try {
+      const [summary] = await this.bigQueryService.getBillingDateSummaries(targetDate);
+      return summary;
+    } catch (error) {
+      console.error('Failed to load current billing summary:', error);
+      return undefined;
+    }
+  }
+
+  private buildChargedRecords(records: BillingRecord[], chargeResults: UsageChargeResult[]): BillingRecord[] {
+    return records.map(record => {
+      const chargeResult = chargeResults.find(r => r.shop === record.shop);
+      if (chargeResult) {
+        // Map 'skipped' status to 'pending' for compatibility with BillingRecord type
+        const billingStatus: BillingRecord['shopify_billing_status'] = 
+          chargeResult.status === 'skipped' || chargeResult.status === 'already_charged' ? 'pending' : chargeResult.status;
+        
+        return {
+          ...record,
+          shopify_charge_id: chargeResult.chargeId,
+          shopify_billing_status: billingStatus,
+          shopify_error_message: chargeResult.error,
+          shopify_error_category: chargeResult.errorCategory,
+          shopify_processed_at: chargeResult.chargeId ? new Date().toISOString() : undefined,
+          shopify_charged_amount: chargeResult.chargedAmount,
+          shopify_unbilled_amount: chargeResult.unbilledAmount,
+          shopify_capped_amount: chargeResult.cappedAmount,
+          shopify_balance_used: chargeResult.balanceUsed,
+          shopify_currency_code: chargeResult.currencyCode,
+          shopify_fx_rate: chargeResult.fxRate,
+        };
+      }
+      return record;
+    });
+  }
+
+  private applyChargeResults(shopResults: ShopBillingResult[], chargeResults: UsageChargeResult[]): void {
+    shopResults.forEach(shopResult => {
+      const chargeResult = chargeResults.find(r => r.shop === shopResult.shop);
+      if (chargeResult) {
+        shopResult.shopifyStatus = chargeResult.status;
+        shopResult.shopifyChargeId = chargeResult.chargeId;
+        shopResult.shopifyError = chargeResult.error;
+        shopResult.errorCategory = chargeResult.errorCategory;
+        shopResult.chargedAmount = chargeResult.chargedAmount;
+        shopResult.unbilledAmount = chargeResult.unbilledAmount;
+        shopResult.cappedAmount = chargeResult.cappedAmount;
+        shopResult.balanceUsed = chargeResult.balanceUsed;
+        shopResult.currencyCode = chargeResult.currencyCode;
+        shopResult.fxRate = chargeResult.fxRate;
+      }
+    });
+  }
+
+  private async loadFxRates(billingDate: string): Promise<Map<string, number>> {
+    const fxRates = await this.bigQueryService.getFxRates(billingDate);
+    return new Map(fxRates.map(rate => [rate.currency_code, rate.rate_per_usd]));
+  }
+
+  private async recordSuccessfulCharges(chargeResults: UsageChargeResult[], billingDate: string): Promise<void> {
+    const chargedAt = new Date().toISOString();
+    const ledgerEntries: ChargeLedgerEntry[] = chargeResults
+      // A capped shop that was partially charged is billed for the date; the remainder is not carried over
+      .filter(result => (result.status === 'success' || result.status === 'capped') && result.chargeId)
+      .map(result => ({
+        shop: result.shop,
+        billing_date: billingDate,
+        idempotency_key: buildIdempotencyKey(result.shop, billingDate),
+        shopify_charge_id: result.chargeId as string,
+        amount: result.chargedAmount ?? result.amount ?? 0,
+        currency_code: result.currencyCode || 'USD',
+        charged_at: chargedAt,
+      }));
+
+    try {
+      await this.bigQueryService.insertChargeLedgerEntries(ledgerEntries);
+    } catch (error) {
+      // The charges themselves succeeded; the idempotency key still blocks duplicates on Shopify's side
+      console.error('Failed to write charge ledger entries:', error);
+    }
+  }
+
   private getTargetBillingDate(): string {
     // Since we run at 01:00 JST (25:00 of previous day), we bill for the previous day
     const now = dayjs().tz(this.config.timezone);
@@ -246,55 +1234,72 @@ export class BillingService {
     return targetDate.format('YYYY-MM-DD');
   }
 
-  private generateBillingRecords(
+  private async generateBillingRecords(
     sessions: ShopifySession[],
     pageViews: PageViewEvent[],
-    billingDate: string
-  ): BillingRecord[] {
+    billingDate: string,
+    shopTimezones: Map<string, string> = new Map(),
+    dryRun: boolean = false
+  ): Promise<BillingRecord[]> {
     const pageViewsMap = new Map(
       pageViews.map(pv => [pv.shop, pv.event_count])
     );
 
+    // Tiers are graduated against month-to-date volume, so load what was already billed this month.
+    // Amounts below the minimum charge from earlier days are carried into today's total.
+    const [shopPlans, monthToDate, carryOverBalances] = await Promise.all([
+      this.bigQueryService.getShopPricingPlans(billingDate),
+      this.bigQueryService.getMonthToDatePageViews(billingDate, dryRun),
+      this.bigQueryService.getCarryOverBalances(billingDate, dryRun),
+    ]);
+    const plansMap = new Map<string, PricingPlan>(shopPlans.map(plan => [plan.shop, plan]));
+    const monthToDateMap = new Map(monthToDate.map(pv => [pv.shop, pv.event_count]));
+    const carryOverMap = new Map(carryOverBalances.map(balance => [balance.shop, balance.carry_over_balance]));
+
     const billingRecords: BillingRecord[] = [];
 
     for (const session of sessions) {
       const viewCount = pageViewsMap.get(session.shop) || 0;
-      const billingAmount = this.calculateBillingAmount(viewCount);
+      const plan = plansMap.get(session.shop) || this.config.defaultPricingPlan;
+      const { amount: rawAmount, tierIndex } = calculateTieredAmount(
+        plan,
+        monthToDateMap.get(session.shop) || 0,
+        viewCount
+      );
+      const { billingAmount, carryOverConsumed, carryOverBalance } = applyCarryOver(
+        rawAmount,
+        carryOverMap.get(session.shop) || 0,
+        this.config.minimumChargeAmount
+      );
 
       billingRecords.push({
         shop: session.shop,
         billing_date: billingDate,
         page_views: viewCount,
         billing_amount: billingAmount,
-        rate_per_million: this.config.ratePerMillion,
+        pricing_plan_id: plan.plan_id,
+        pricing_tier: tierIndex,
+        raw_amount: rawAmount,
+        carry_over_consumed: carryOverConsumed,
+        carry_over_balance: carryOverBalance,
+        billing_timezone: shopTimezones.get(session.shop) || this.config.timezone,
       });
     }
 
     return billingRecords;
   }
 
-  private calculateBillingAmount(pageViews: number): number {
-    // $10 per 1 million page views
-    const millionViews = pageViews / 1_000_000;
-    return Math.round(millionViews * this.config.ratePerMillion * 100) / 100; // Round to 2 decimal places
+  async testBillingForDate(testDate: string): Promise<DailyBillingResult> {
+    return this.withBatchRun(testDate, 'test', () => this.runTestBilling(testDate));
   }
 
-  async testBillingForDate(testDate: string): Promise<{
-    success: boolean;
-    targetDate: string;
-    skipped: boolean;
-    skipReason?: string;
-    activeSessions: number;
-    shopsWithPageViews: number;
-    billingRecordsGenerated: number;
-    totalPageViews: number;
-    totalAmount: number;
-  }> {
+  private async runTestBilling(testDate: string): Promise<DailyBillingResult> {
     console.log(`Testing billing process for date: ${testDate}`);
     
-    const sessions = await this.bigQueryService.getActiveShopifySessions();
-    const pageViews = await this.bigQueryService.getPageViewsForDate(testDate);
-    const billingRecords = this.generateBillingRecords(sessions, pageViews, testDate);
+    const { sessions } = await this.loadSessions();
+    const shopTimezones = await this.loadShopTimezones(sessions);
+    const pageViews = await this.bigQueryService.getPageViewsForDate(testDate, this.config.timezone, shopTimezones);
+    const billingRecords = await this.generateBillingRecords(sessions, pageViews, testDate, shopTimezones);
     
     console.log('Test Results:');
     console.log(`- Active sessions: ${sessions.length}`);
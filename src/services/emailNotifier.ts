@@ -0,0 +1,164 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import SMTPTransport from 'nodemailer/lib/smtp-transport';
+import { Notification, BatchResult } from '../types/billing';
+import { Notifier } from './notifier';
+import { Translator, DEFAULT_LOCALE } from '../i18n';
+
+export interface EmailContent {
+  subject: string;
+  text: string;
+}
+
+const dailyLines = (details: NonNullable<BatchResult['billingDetails']>, i18n: Translator): string[] => {
+  const money = (amount: number) => i18n.formatMoney(amount);
+  const lines = [
+    i18n.t('email.batch.targetDate', { date: details.targetDate }),
+    details.skipped
+      ? i18n.t('email.batch.skipped', { reason: details.skipReason ?? '' })
+      : i18n.t('email.batch.total', {
+        amount: money(details.totalAmount),
+        records: details.billingRecordsGenerated,
+        pageViews: i18n.formatNumber(details.totalPageViews),
+      }),
+  ];
+
+  (details.shopResults ?? []).forEach(shop => {
+    if (shop.shopifyStatus === 'failed') {
+      lines.push('  ' + i18n.t('email.batch.shopFailed', {
+        shop: shop.shop,
+        amount: money(shop.billingAmount),
+        category: shop.errorCategory ?? 'unknown',
+        error: shop.shopifyError ?? '',
+      }));
+    } else if (shop.shopifyStatus === 'held') {
+      lines.push('  ' + i18n.t('email.batch.shopHeld', { shop: shop.shop, amount: money(shop.billingAmount), reason: shop.holdReason ?? '' }));
+    } else if (shop.shopifyStatus === 'awaiting_approval') {
+      lines.push('  ' + i18n.t('email.batch.shopAwaitingApproval', { shop: shop.shop, amount: money(shop.billingAmount) }));
+    }
+  });
+
+  if (details.errorDetails) {
+    lines.push(i18n.t('email.batch.error', { error: details.errorDetails.message }));
+  }
+  return lines;
+};
+
+/**
+ * Plain-text rendering of a notification for email, in the locale of the translator.
+ */
+export function formatNotificationEmail(notification: Notification, i18n: Translator = new Translator()): EmailContent {
+  const t = i18n.t.bind(i18n);
+  const money = (amount: number) => i18n.formatMoney(amount);
+  const range = (start: string, end: string) => t('common.range', { start, end });
+
+  switch (notification.kind) {
+    case 'batch_result': {
+      const { success, message, timestamp, error, billingDetails, backfillDetails } = notification.result;
+      const targetDate = billingDetails?.targetDate ??
+        (backfillDetails ? range(backfillDetails.startDate, backfillDetails.endDate) : '');
+      const lines = [
+        t('email.batch.status', { status: t(success ? 'email.batch.status.success' : 'email.batch.status.failure') }),
+        t('email.batch.timestamp', { timestamp }),
+        t('email.batch.message', { message }),
+        ...(error ? [t('email.batch.error', { error })] : []),
+        ...(billingDetails ? dailyLines(billingDetails, i18n) : []),
+        ...(backfillDetails?.results ?? []).flatMap(details => dailyLines(details, i18n)),
+      ];
+      return {
+        subject: t(success ? 'email.batch.subject.success' : 'email.batch.subject.failure', { target: targetDate }).trim(),
+        text: lines.join('\n'),
+      };
+    }
+    case 'reconciliation': {
+      const { startDate, endDate, shopsChecked, findings, shopErrors, runId } = notification.result;
+      const lines = [
+        t('email.reconciliation.period', { range: range(startDate, endDate) }),
+        t('email.reconciliation.shopsChecked', { count: shopsChecked }),
+        t('email.reconciliation.findings', { count: findings.length }),
+        ...findings.map(finding =>
+          `  ${finding.shop} ${finding.billing_date ?? t('email.reconciliation.unknownDate')} ${finding.finding_type}` +
+          (finding.expected_amount !== undefined ? ` ${t('email.reconciliation.expected', { amount: finding.expected_amount })}` : '') +
+          (finding.actual_amount !== undefined ? ` ${t('email.reconciliation.actual', { amount: finding.actual_amount })}` : '')
+        ),
+        ...shopErrors.map(shopError => '  ' + t('email.reconciliation.shopError', { shop: shopError.shop, error: shopError.error })),
+        t('email.reconciliation.runId', { runId }),
+      ];
+      return {
+        subject: t('email.reconciliation.subject', { count: findings.length, range: range(startDate, endDate) }),
+        text: lines.join('\n'),
+      };
+    }
+    case 'shop_failure_digest': {
+      const { targetDate, shops } = notification.digest;
+      return {
+        subject: t('email.digest.subject', { date: targetDate, count: shops.length }),
+        text: shops.map(entry =>
+          `${entry.shop} ${money(entry.billingAmount)} [${entry.errorCategory}] ${entry.error}`
+        ).join('\n'),
+      };
+    }
+    case 'approval_request': {
+      const { records } = notification;
+      const dates = [...new Set(records.map(record => record.billing_date))].join(', ');
+      return {
+        subject: t('email.approval.subject', { count: records.length, dates }),
+        text: [
+          ...records.map(record => t('email.approval.line', {
+            shop: record.shop,
+            date: record.billing_date,
+            amount: money(record.billing_amount),
+            threshold: money(Number(record.approval_threshold ?? 0)),
+          })),
+          t('email.approval.instructions'),
+        ].join('\n'),
+      };
+    }
+  }
+}
+
+/**
+ * SMTP settings from SMTP_HOST / SMTP_PORT / SMTP_SECURE / SMTP_USER / SMTP_PASS.
+ */
+export function createSmtpTransport(): Transporter<SMTPTransport.SentMessageInfo> {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error('SMTP_HOST environment variable is required for email notifications');
+  }
+
+  return nodemailer.createTransport({
+    host,
+    port: parseInt(process.env.SMTP_PORT || '587'),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+  });
+}
+
+export interface EmailNotifierOptions {
+  // Defaults to an SMTP transport from the SMTP_* variables
+  transport?: Transporter<SMTPTransport.SentMessageInfo>;
+  // Defaults to NOTIFY_EMAIL_FROM
+  from?: string;
+  // Locale of the subject and body
+  locale?: string;
+}
+
+export class EmailNotifier implements Notifier {
+  readonly target: string;
+  private to: string;
+  private from: string;
+  private transport: Transporter<SMTPTransport.SentMessageInfo>;
+  private i18n: Translator;
+
+  constructor(to: string, options: EmailNotifierOptions = {}) {
+    this.to = to;
+    this.from = options.from ?? (process.env.NOTIFY_EMAIL_FROM || 'billing-batch@localhost');
+    this.transport = options.transport ?? createSmtpTransport();
+    this.i18n = new Translator(options.locale || DEFAULT_LOCALE);
+    this.target = `email:${to}`;
+  }
+
+  async send(notification: Notification): Promise<void> {
+    const { subject, text } = formatNotificationEmail(notification, this.i18n);
+    await this.transport.sendMail({ from: this.from, to: this.to, subject, text });
+  }
+}
@@ -0,0 +1,189 @@
+import { BatchResult, Notification, NotificationRoute, ShopFailureDigest } from '../types/billing';
+import { SlackService, parseChannelIds } from './slack';
+import { WebhookNotifier } from './webhookNotifier';
+import { EmailNotifier } from './emailNotifier';
+
+export interface Notifier {
+  // Target spec the notifier was created from, for logging
+  readonly target: string;
+  send(notification: Notification): Promise<void>;
+}
+
+export class SlackNotifier implements Notifier {
+  readonly target: string;
+  private slackService: SlackService;
+
+  constructor(slackService: SlackService, channelId: string) {
+    this.slackService = slackService;
+    this.target = `slack:${channelId}`;
+  }
+
+  async send(notification: Notification): Promise<void> {
+    switch (notification.kind) {
+      case 'batch_result':
+        return this.slackService.sendBatchResult(notification.result);
+      case 'reconciliation':
+        return this.slackService.sendReconciliationResult(notification.result);
+      case 'shop_failure_digest':
+        return this.slackService.sendShopFailureDigest(notification.digest);
+      case 'approval_request':
+        return this.slackService.sendApprovalRequests(notification.records);
+    }
+  }
+}
+
+const ROUTE_ENV_VARS: Record<NotificationRoute, string> = {
+  summary: 'NOTIFY_SUMMARY',
+  oncall: 'NOTIFY_ONCALL',
+  customer_success: 'NOTIFY_CUSTOMER_SUCCESS',
+};
+
+const needsAttention = (details: NonNullable<BatchResult['billingDetails']>): boolean =>
+  details.success === false || (details.shopResults ?? []).some(shop =>
+    shop.shopifyStatus === 'failed' || shop.shopifyStatus === 'held' ||
+    shop.shopifyStatus === 'awaiting_approval' || (!shop.bigQuerySaved && !!shop.bigQueryError)
+  );
+
+/**
+ * Clean runs go to the summary route; anything someone has to act on goes to on-call.
+ */
+export function routeNotification(notification: Notification): NotificationRoute {
+  switch (notification.kind) {
+    case 'batch_result': {
+      const { success, billingDetails, backfillDetails } = notification.result;
+      const details = [...(billingDetails ? [billingDetails] : []), ...(backfillDetails?.results ?? [])];
+      return !success || backfillDetails?.success === false || details.some(needsAttention) ? 'oncall' : 'summary';
+    }
+    case 'reconciliation': {
+      const { success, findings, shopErrors } = notification.result;
+      return success && findings.length === 0 && shopErrors.length === 0 ? 'summary' : 'oncall';
+    }
+    case 'shop_failure_digest':
+      return 'customer_success';
+    case 'approval_request':
+      return 'oncall';
+  }
+}
+
+/**
+ * One digest per billing date in the result that has failed charges.
+ */
+export function buildShopFailureDigests(result: BatchResult): ShopFailureDigest[] {
+  const details = [
+    ...(result.billingDetails ? [result.billingDetails] : []),
+    ...(result.backfillDetails?.results ?? []),
+  ];
+
+  return details
+    .map(detail => ({
+      targetDate: detail.targetDate,
+      shops: (detail.shopResults ?? [])
+        .filter(shop => shop.shopifyStatus === 'failed')
+        .map(shop => ({
+          shop: shop.shop,
+          billingAmount: shop.billingAmount,
+          errorCategory: shop.errorCategory ?? 'unknown',
+          error: shop.shopifyError ?? 'Unknown error',
+        })),
+    }))
+    .filter(digest => digest.shops.length > 0);
+}
+
+/**
+ * Builds a notifier from a target spec: `slack:<channel>`, `webhook:<url>` or `email:<address>`.
+ * A bare value is a Slack channel ID, so SLACK_CHANNEL_IDS entries are valid targets.
+ * The locale applies to Slack reports and emails. Returns null, after logging, for a target that cannot be
+ * used (unknown scheme, empty value, email without SMTP_HOST): one bad entry in the configuration
+ * must not stop the other targets or the function from loading.
+ */
+export function createNotifier(spec: string, locale?: string): Notifier | null {
+  const separator = spec.indexOf(':');
+  const scheme = separator === -1 ? 'slack' : spec.slice(0, separator);
+  const value = separator === -1 ? spec : spec.slice(separator + 1);
+  const skip = (reason: string): null => {
+    console.error(`Skipping notification target "${spec}": ${reason}`);
+    return null;
+  };
+
+  if (!value) {
+    return skip('no channel, URL or address');
+  }
+
+  switch (scheme) {
+    case 'slack':
+      return new SlackNotifier(new SlackService({ channelId: value, locale }), value);
+    case 'webhook':
+      return new WebhookNotifier(value);
+    case 'email':
+      return process.env.SMTP_HOST ? new EmailNotifier(value, { locale }) : skip('SMTP_HOST is not set');
+    default:
+      return skip(`unknown scheme "${scheme}"`);
+  }
+}
+
+/**
+ * Targets per route from NOTIFY_SUMMARY / NOTIFY_ONCALL / NOTIFY_CUSTOMER_SUCCESS (comma-separated
+ * target specs). Summary and on-call default to every channel in SLACK_CHANNEL_IDS.
+ */
+export function loadRoutesFromEnv(env: NodeJS.ProcessEnv = process.env): Record<NotificationRoute, string[]> {
+  const slackChannels = parseChannelIds(env.SLACK_CHANNEL_IDS || env.SLACK_CHANNEL_ID);
+  const targets = (route: NotificationRoute, fallback: string[]): string[] => {
+    const value = env[ROUTE_ENV_VARS[route]];
+    return value ? parseChannelIds(value) : fallback;
+  };
+
+  return {
+    summary: targets('summary', slackChannels),
+    oncall: targets('oncall', slackChannels),
+    customer_success: targets('customer_success', []),
+  };
+}
+
+/**
+ * Sends each notification to every notifier on its route. A failing notifier is logged and does not
+ * stop the others or the batch.
+ */
+export class NotificationRouter {
+  private routes: Record<NotificationRoute, Notifier[]>;
+
+  constructor(routes?: Record<NotificationRoute, Notifier[]>) {
+    if (routes) {
+      this.routes = routes;
+      return;
+    }
+
+    const specs = loadRoutesFromEnv();
+    // NOTIFY_<ROUTE>_LOCALE, e.g. NOTIFY_ONCALL_LOCALE=en
+    const notifiers = (route: NotificationRoute): Notifier[] =>
+      specs[route]
+        .map(spec => createNotifier(spec, process.env[`${ROUTE_ENV_VARS[route]}_LOCALE`] || undefined))
+        .filter((notifier): notifier is Notifier => notifier !== null);
+    this.routes = {
+      summary: notifiers('summary'),
+      oncall: notifiers('oncall'),
+      customer_success: notifiers('customer_success'),
+    };
+  }
+
+  async notify(notification: Notification): Promise<void> {
+    const route = routeNotification(notification);
+    const notifiers = this.routes[route];
+    const results = await Promise.allSettled(notifiers.map(notifier => notifier.send(notification)));
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.error(`Failed to send ${notification.kind} notification to ${notifiers[index].target}:`, result.reason);
+      }
+    });
+  }
+
+  /**
+   * Reports the run, then sends the per-shop failure digests.
+   */
+  async notifyBatchResult(result: BatchResult): Promise<void> {
+    await this.notify({ kind: 'batch_result', result });
+    for (const digest of buildShopFailureDigests(result)) {
+      await this.notify({ kind: 'shop_failure_digest', digest });
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { CarryOverResult, PricingPlan, PricingResult } from '../types/billing';
+
+// Applied to shops without a plan assignment in billing.shop_pricing_plans
+export const DEFAULT_PRICING_PLAN: PricingPlan = {
+  plan_id: 'standard',
+  name: 'Standard ($10 per 1M page views)',
+  tiers: [{ up_to: null, rate_per_million: 10.0 }],
+};
+
+/**
+ * Graduated pricing: each page view is priced by the tier its month-to-date position falls into,
+ * so today's views continue from where the shop's monthly volume left off yesterday.
+ * The returned amount is not rounded.
+ */
+export function calculateTieredAmount(
+  plan: PricingPlan,
+  monthToDatePageViews: number,
+  pageViews: number
+): PricingResult {
+  const start = monthToDatePageViews;
+  const end = monthToDatePageViews + pageViews;
+
+  let amount = 0;
+  let tierIndex = 0;
+  let lowerBound = 0;
+
+  for (let i = 0; i < plan.tiers.length; i++) {
+    const tier = plan.tiers[i];
+    const upperBound = tier.up_to ?? Infinity;
+
+    const billableViews = Math.max(0, Math.min(end, upperBound) - Math.max(start, lowerBound));
+    amount += (billableViews / 1_000_000) * tier.rate_per_million;
+
+    // The tier reached by the last page view of the day (or the current tier when there were none)
+    const position = pageViews > 0 ? end - 1 : start;
+    if (position >= lowerBound && position < upperBound) {
+      tierIndex = i;
+    }
+
+    lowerBound = upperBound;
+  }
+
+  return { amount, tierIndex };
+}
+
+/**
+ * Adds the day's unrounded amount to the shop's carried-over balance. Once the total reaches the
+ * minimum charge, whole cents are billed and only the sub-cent remainder is carried forward.
+ */
+export function applyCarryOver(
+  rawAmount: number,
+  carryOverBalance: number,
+  minimumChargeAmount: number
+): CarryOverResult {
+  // Work in micro-dollars so rounding does not drift across days
+  const totalMicros = Math.round((rawAmount + carryOverBalance) * 1_000_000);
+  const total = totalMicros / 1_000_000;
+
+  const billingCents = Math.floor(totalMicros / 10_000);
+
+  if (billingCents <= 0 || total < minimumChargeAmount) {
+    return { billingAmount: 0, carryOverConsumed: 0, carryOverBalance: total };
+  }
+
+  return {
+    billingAmount: billingCents / 100,
+    carryOverConsumed: carryOverBalance,
+    carryOverBalance: (totalMicros - billingCents * 10_000) / 1_000_000,
+  };
+}
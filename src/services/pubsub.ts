@@ -0,0 +1,59 @@
+import { PubSub } from '@google-cloud/pubsub';
+import { ChargeJob, ChargeCompletion } from '../types/billing';
+import { ApprovalDecision } from './slackInteractions';
+
+/**
+ * Publishes charge jobs, their completions and approval decisions from Slack. Set PUBSUB_EMULATOR_HOST to run against
+ * the local emulator; the client picks it up automatically.
+ */
+export class PubSubService {
+  private pubsub: PubSub;
+  private chargeJobsTopic: string;
+  private chargeCompletionsTopic: string;
+  private approvalDecisionsTopic: string;
+
+  constructor() {
+    this.pubsub = new PubSub({ projectId: process.env.GOOGLE_CLOUD_PROJECT || 'growth-force-project' });
+    this.chargeJobsTopic = process.env.CHARGE_JOBS_TOPIC || 'billing-charge-jobs';
+    this.chargeCompletionsTopic = process.env.CHARGE_COMPLETIONS_TOPIC || 'billing-charge-completions';
+    this.approvalDecisionsTopic = process.env.APPROVAL_DECISIONS_TOPIC || 'billing-approval-decisions';
+  }
+
+  async publishChargeJobs(jobs: ChargeJob[]): Promise<string[]> {
+    const topic = this.pubsub.topic(this.chargeJobsTopic);
+
+    const messageIds = await Promise.all(jobs.map(job =>
+      topic.publishMessage({
+        json: job,
+        attributes: { runId: job.run_id, billingDate: job.billing_date, shop: job.record.shop },
+      })
+    ));
+    console.log(`Published ${messageIds.length} charge jobs to ${this.chargeJobsTopic}`);
+    return messageIds;
+  }
+
+  async publishChargeCompletion(completion: ChargeCompletion): Promise<string> {
+    return this.pubsub.topic(this.chargeCompletionsTopic).publishMessage({
+      json: completion,
+      attributes: { runId: completion.run_id, shop: completion.shop },
+    });
+  }
+
+  async publishApprovalDecision(decision: ApprovalDecision): Promise<string> {
+    return this.pubsub.topic(this.approvalDecisionsTopic).publishMessage({
+      json: decision,
+      attributes: { shop: decision.request.shop, billingDate: decision.request.billing_date },
+    });
+  }
+}
+
+/**
+ * Decodes the JSON payload of a Pub/Sub message delivered to a CloudEvent function.
+ */
+export function decodeMessage<T>(data: { message?: { data?: string } } | undefined): T {
+  const encoded = data?.message?.data;
+  if (!encoded) {
+    throw new Error('Pub/Sub message has no data');
+  }
+  return JSON.parse(Buffer.from(encoded, 'base64').toString('utf8')) as T;
+}
@@ -0,0 +1,186 @@
+import { randomUUID } from 'crypto';
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+import pLimit from 'p-limit';
+import { BigQueryService } from './bigquery';
+import { ShopifyBillingService, roundToCurrency } from './shopifyBilling';
+import { selectSessionsPerShop } from './sessionSelection';
+import { assertValidDate } from '../utils/date';
+import {
+  BillingRecord,
+  ShopifyUsageRecord,
+  ReconciliationFinding,
+  ReconciliationResult
+} from '../types/billing';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+export type Discrepancy = Omit<ReconciliationFinding, 'run_id' | 'detected_at'>;
+
+/**
+ * Compares one shop's charged usage_records rows with the usage records Shopify holds for the
+ * same billing dates. Records are matched by charge ID only: a matched pair whose amount or
+ * currency differs is an amount mismatch, and a record without a counterpart is reported as
+ * missing on the other side.
+ */
+export function findDiscrepancies(
+  shop: string,
+  billingRecords: BillingRecord[],
+  usageRecords: ShopifyUsageRecord[]
+): Discrepancy[] {
+  const discrepancies: Discrepancy[] = [];
+  const usageRecordsById = new Map(usageRecords.map(record => [record.id, record]));
+  const chargedRecords = billingRecords.filter(record =>
+    record.shopify_charge_id &&
+    (record.shopify_billing_status === 'success' || record.shopify_billing_status === 'capped')
+  );
+  const ourChargeIds = new Set(chargedRecords.map(record => record.shopify_charge_id));
+
+  chargedRecords.forEach(record => {
+    const expectedAmount = record.shopify_charged_amount ?? record.billing_amount;
+    const currencyCode = record.shopify_currency_code || 'USD';
+    const usageRecord = usageRecordsById.get(record.shopify_charge_id as string);
+
+    if (!usageRecord) {
+      discrepancies.push({
+        shop,
+        billing_date: record.billing_date,
+        finding_type: 'missing_in_shopify',
+        shopify_charge_id: record.shopify_charge_id,
+        expected_amount: expectedAmount,
+        currency_code: currencyCode,
+      });
+      return;
+    }
+
+    const difference = roundToCurrency(usageRecord.amount - expectedAmount, currencyCode);
+    if (difference !== 0 || usageRecord.currencyCode !== currencyCode) {
+      discrepancies.push({
+        shop,
+        billing_date: record.billing_date,
+        finding_type: 'amount_mismatch',
+        shopify_charge_id: record.shopify_charge_id,
+        expected_amount: expectedAmount,
+        actual_amount: usageRecord.amount,
+        currency_code: usageRecord.currencyCode,
+        detail: usageRecord.currencyCode !== currencyCode
+          ? `Currency ${usageRecord.currencyCode} on Shopify, ${currencyCode} in usage_records`
+          : undefined,
+      });
+    }
+  });
+
+  usageRecords
+    .filter(usageRecord => !ourChargeIds.has(usageRecord.id))
+    .forEach(usageRecord => discrepancies.push({
+      shop,
+      billing_date: usageRecord.billingDate,
+      finding_type: 'missing_in_bigquery',
+      shopify_charge_id: usageRecord.id,
+      actual_amount: usageRecord.amount,
+      currency_code: usageRecord.currencyCode,
+      detail: usageRecord.description,
+    }));
+
+  return discrepancies;
+}
+
+export class ReconciliationService {
+  private bigQueryService: BigQueryService;
+  private shopifyBillingService: ShopifyBillingService;
+  private concurrencyLimit: ReturnType<typeof pLimit>;
+  private timezone: string;
+
+  constructor() {
+    this.bigQueryService = new BigQueryService();
+    this.shopifyBillingService = new ShopifyBillingService();
+    this.concurrencyLimit = pLimit(parseInt(process.env.BATCH_SIZE || '5'));
+    this.timezone = process.env.BILLING_TIMEZONE || 'Asia/Tokyo';
+  }
+
+  /**
+   * Reconciles every shop with a session or a charge in [startDate, endDate] and stores the
+   * findings in billing.reconciliation_findings.
+   */
+  async reconcile(startDate: string, endDate: string): Promise<ReconciliationResult> {
+    assertValidDate(startDate, 'startDate');
+    assertValidDate(endDate, 'endDate');
+    if (startDate > endDate) {
+      throw new Error(`Reconciliation start date ${startDate} is after end date ${endDate}`);
+    }
+
+    const runId = randomUUID();
+    console.log(`Reconciling usage records ${startDate} - ${endDate} (run ${runId})`);
+
+    const billingRecords = await this.bigQueryService.getCurrentBillingRecords(startDate, endDate);
+    const { sessions } = selectSessionsPerShop(await this.bigQueryService.getActiveShopifySessions());
+    const sessionsByShop = new Map(sessions.map(session => [session.shop, session]));
+    const shops = Array.from(new Set([
+      ...sessions.map(session => session.shop),
+      ...billingRecords.filter(record => record.shopify_charge_id).map(record => record.shop),
+    ]));
+
+    // Charges for a billing date are created after it ends, so nothing relevant predates its start
+    const since = dayjs.tz(startDate, this.timezone).toISOString();
+    const inRange = (record: ShopifyUsageRecord): boolean => {
+      const billingDate = record.billingDate ?? dayjs(record.createdAt).tz(this.timezone).format('YYYY-MM-DD');
+      return billingDate >= startDate && billingDate <= endDate;
+    };
+
+    const discrepancies: Discrepancy[] = [];
+    const shopErrors: ReconciliationResult['shopErrors'] = [];
+    let recordsCompared = 0;
+
+    await Promise.all(shops.map(shop => this.concurrencyLimit(async () => {
+      const session = sessionsByShop.get(shop);
+      if (!session) {
+        shopErrors.push({ shop, error: 'No active session found for shop' });
+        return;
+      }
+
+      try {
+        const usageRecords = (await this.shopifyBillingService.getUsageRecords(session, since)).filter(inRange);
+        const shopRecords = billingRecords.filter(record => record.shop === shop);
+        recordsCompared += usageRecords.length;
+        discrepancies.push(...findDiscrepancies(shop, shopRecords, usageRecords));
+      } catch (error) {
+        shopErrors.push({ shop, error: error instanceof Error ? error.message : String(error) });
+      }
+    })));
+
+    const detectedAt = new Date().toISOString();
+    const findings: ReconciliationFinding[] = discrepancies.map(discrepancy => ({
+      ...discrepancy,
+      run_id: runId,
+      detected_at: detectedAt,
+    }));
+    await this.bigQueryService.insertReconciliationFindings(findings);
+
+    console.log(`Reconciliation found ${findings.length} discrepancies across ${shops.length} shops`);
+
+    return {
+      success: shopErrors.length === 0,
+      runId,
+      startDate,
+      endDate,
+      shopsChecked: shops.length - shopErrors.length,
+      recordsCompared,
+      findings,
+      shopErrors,
+    };
+  }
+
+  /**
+   * Default range: the last RECONCILIATION_DAYS billing dates up to and including yesterday.
+   */
+  getDefaultRange(): { startDate: string; endDate: string } {
+    const days = parseInt(process.env.RECONCILIATION_DAYS || '7');
+    const end = dayjs().tz(this.timezone).subtract(1, 'day');
+    return {
+      startDate: end.subtract(Math.max(days, 1) - 1, 'day').format('YYYY-MM-DD'),
+      endDate: end.format('YYYY-MM-DD'),
+    };
+  }
+}
@@ -0,0 +1,57 @@
+import { ShopifySession, DiscardedSession } from '../types/billing';
+
+export interface SessionSelection {
+  // Exactly one session per shop: the most recently updated offline token
+  sessions: ShopifySession[];
+  // Older offline tokens per shop, newest first, to try when the selected one is rejected (401)
+  fallbacks: Map<string, ShopifySession[]>;
+  discarded: DiscardedSession[];
+}
+
+const normalizeShop = (shop: string): string => shop.replace(/\.myshopify\.com$/, '');
+
+const updatedAtMillis = (session: ShopifySession): number => {
+  const time = Date.parse(session.updated_at ?? '');
+  return isNaN(time) ? 0 : time;
+};
+
+/**
+ * Picks the session to bill each shop with. session_manager.shopify_sessions can hold online
+ * tokens (which expire with the user's login) and stale offline tokens from earlier installs
+ * next to the current one; billing with more than one of them would charge the shop twice.
+ */
+export function selectSessionsPerShop(rows: ShopifySession[]): SessionSelection {
+  const byShop = new Map<string, ShopifySession[]>();
+  const discarded: DiscardedSession[] = [];
+
+  rows.forEach(session => {
+    if (session.is_online) {
+      discarded.push({ session_id: session.session_id, shop: session.shop, reason: 'online' });
+      return;
+    }
+    const key = normalizeShop(session.shop);
+    byShop.set(key, [...(byShop.get(key) || []), session]);
+  });
+
+  const sessions: ShopifySession[] = [];
+  const fallbacks = new Map<string, ShopifySession[]>();
+
+  byShop.forEach(candidates => {
+    const [selected, ...older] = [...candidates].sort((a, b) =>
+      updatedAtMillis(b) - updatedAtMillis(a) || b.session_id.localeCompare(a.session_id)
+    );
+    sessions.push(selected);
+
+    if (older.length > 0) {
+      fallbacks.set(selected.shop, older);
+      older.forEach(session => discarded.push({
+        session_id: session.session_id,
+        shop: session.shop,
+        reason: 'duplicate',
+        kept_session_id: selected.session_id,
+      }));
+    }
+  });
+
+  return { sessions, fallbacks, discarded };
+}
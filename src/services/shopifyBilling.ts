@@ -1,13 +1,59 @@
+import { createHash } from 'crypto';
 import axios from 'axios';
 import pLimit from 'p-limit';
-import { ShopifySession } from '../types/billing';
-
-export interface UsageChargeResult {
-  shop: string;
-  chargeId?: string;
-  status: 'success' | 'failed' | 'skipped';
-  error?: string;
-  amount?: number;
+import { ShopifySession, ChargeErrorCategory, ShopStatus, ShopifyUsageRecord, UsageChargeResult } from '../types/billing';
+import { QueryCost, ShopifyThrottle, parseRetryAfter } from './shopifyThrottle';
+
+export interface ChargeOptions {
+  // Units of each currency per 1 USD, used to convert our USD prices into the subscription currency
+  fxRates?: Map<string, number>;
+  // Older offline sessions per shop, tried in order when the primary token is rejected
+  fallbackSessions?: Map<string, ShopifySession[]>;
+  // Look up subscriptions and caps but never call appUsageRecordCreate
+  dryRun?: boolean;
+}
+
+interface UsageLineItem {
+  id: string;
+  currencyCode: string;
+  cappedAmount?: number;
+  balanceUsed: number;
+}
+
+interface MoneyV2 {
+  amount: string;
+  currencyCode: string;
+}
+
+/**
+ * Deterministic key sent with appUsageRecordCreate so Shopify rejects a second
+ * usage record for the same shop and billing date, even if our own ledger missed it.
+ */
+export function buildIdempotencyKey(shop: string, billingDate: string): string {
+  const normalizedShop = shop.replace(/\.myshopify\.com$/, '');
+  return createHash('sha256')
+    .update(`web-pixel-billing:${normalizedShop}:${billingDate}`)
+    .digest('hex');
+}
+
+// Matches the description createUsageCharge writes, to recover the billing date of a usage record
+const USAGE_DESCRIPTION_PATTERN = /^Web pixel usage charges - (\d{4}-\d{2}-\d{2})$/;
+
+/**
+ * Rounds to the currency's minor unit (2 decimals for USD, 0 for JPY).
+ */
+export function roundToCurrency(amount: number, currencyCode: string): number {
+  const factor = Math.pow(10, getCurrencyDecimals(currencyCode));
+  return Math.round(amount * factor) / factor;
+}
+
+function getCurrencyDecimals(currencyCode: string): number {
+  try {
+    return new Intl.NumberFormat('en', { style: 'currency', currency: currencyCode })
+      .resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2;
+  }
 }
 
 interface GraphQLResponse {
@@ -21,6 +67,9 @@ interface GraphQLResponse {
         message: string;
       }>;
     };
+    shop?: {
+      ianaTimezone?: string;
+    };
     currentAppInstallation?: {
       activeSubscriptions?: Array<{
         lineItems?: Array<{
@@ -28,6 +77,23 @@ interface GraphQLResponse {
           plan?: {
             pricingDetails?: {
               __typename: string;
+              cappedAmount?: MoneyV2;
+              balanceUsed?: MoneyV2;
+            };
+          };
+          usageRecords?: {
+            edges: Array<{
+              node: {
+                id: string;
+                createdAt: string;
+                description: string;
+                idempotencyKey?: string | null;
+                price: MoneyV2;
+              };
+            }>;
+            pageInfo: {
+              hasNextPage: boolean;
+              endCursor?: string | null;
             };
           };
         }>;
@@ -40,6 +106,52 @@ interface GraphQLResponse {
       code: string;
     };
   }>;
+  extensions?: {
+    cost?: QueryCost;
+  };
+}
+
+export class ShopifyChargeError extends Error {
+  readonly category: ChargeErrorCategory;
+  readonly httpStatus?: number;
+
+  constructor(message: string, category: ChargeErrorCategory, httpStatus?: number) {
+    super(message);
+    this.name = 'ShopifyChargeError';
+    this.category = category;
+    this.httpStatus = httpStatus;
+  }
+}
+
+// Shopify refused the request for cost or rate reasons; the throttle already knows how long to wait
+class ThrottledError extends ShopifyChargeError {
+  constructor() {
+    super('Rate limit exceeded', 'transient');
+    this.name = 'ThrottledError';
+  }
+}
+
+export function classifyChargeError(error: unknown): ChargeErrorCategory {
+  return error instanceof ShopifyChargeError ? error.category : 'unknown';
+}
+
+// appUsageRecordCreate reports an exceeded cappedAmount as a userError, not an error code
+function classifyUserErrors(messages: string[]): ChargeErrorCategory {
+  return messages.some(message => /capped amount|exceed/i.test(message)) ? 'cap_exceeded' : 'validation';
+}
+
+// Top-level GraphQL error codes; anything we do not recognise is treated as a bad request
+function classifyGraphQLErrorCode(code: string | undefined): ChargeErrorCategory {
+  switch (code) {
+    case 'THROTTLED':
+    case 'INTERNAL_SERVER_ERROR':
+      return 'transient';
+    case 'ACCESS_DENIED':
+    case 'UNAUTHENTICATED':
+      return 'auth';
+    default:
+      return 'unknown';
+  }
 }
 
 export class ShopifyBillingService {
@@ -47,17 +159,21 @@ export class ShopifyBillingService {
   private concurrencyLimit: ReturnType<typeof pLimit>;
   private maxRetries: number;
   private retryDelay: number;
+  private throttle: ShopifyThrottle;
 
   constructor() {
     this.apiVersion = process.env.SHOPIFY_API_VERSION || '2024-01';
     this.concurrencyLimit = pLimit(parseInt(process.env.BATCH_SIZE || '5'));
     this.maxRetries = parseInt(process.env.MAX_RETRIES || '3');
     this.retryDelay = 1000; // Start with 1 second
+    this.throttle = new ShopifyThrottle();
   }
 
   async chargeShops(
     sessions: ShopifySession[],
-    charges: Map<string, number>
+    charges: Map<string, number>,
+    billingDate: string = new Date().toISOString().split('T')[0],
+    options: ChargeOptions = {}
   ): Promise<UsageChargeResult[]> {
     console.log(`Processing charges for ${sessions.length} shops`);
 
@@ -73,7 +189,7 @@ export class ShopifyBillingService {
           };
         }
 
-        return this.chargeShopWithRetry(session, amount);
+        return this.chargeShopWithFallback(session, amount, billingDate, options);
       })
     );
 
@@ -88,58 +204,119 @@ export class ShopifyBillingService {
     return results;
   }
 
+  // The same idempotency key is sent with every token, so a fallback can never charge twice
+  private async chargeShopWithFallback(
+    session: ShopifySession,
+    amount: number,
+    billingDate: string,
+    options: ChargeOptions
+  ): Promise<UsageChargeResult> {
+    let result = await this.chargeShopWithRetry(session, amount, billingDate, options);
+
+    for (const fallback of options.fallbackSessions?.get(session.shop) || []) {
+      if (result.errorCategory !== 'auth') {
+        break;
+      }
+      console.warn(`Token rejected for ${session.shop}, retrying with older session ${fallback.session_id}`);
+      result = {
+        ...(await this.chargeShopWithRetry(fallback, amount, billingDate, options)),
+        shop: session.shop,
+        sessionId: fallback.session_id,
+      };
+    }
+
+    return result;
+  }
+
   private async chargeShopWithRetry(
     session: ShopifySession,
     amount: number,
+    billingDate: string,
+    options: ChargeOptions = {},
     attempt: number = 1
   ): Promise<UsageChargeResult> {
     try {
-      const subscriptionLineItemId = await this.getSubscriptionLineItemId(session);
+      const lineItem = await this.getUsageLineItem(session);
       
-      if (!subscriptionLineItemId) {
+      if (!lineItem) {
         return {
           shop: session.shop,
           status: 'failed',
           error: 'No active usage-based subscription found',
+          errorCategory: 'subscription_missing',
           amount,
         };
       }
 
-      const chargeId = await this.createUsageCharge(
-        session,
-        subscriptionLineItemId,
-        amount
-      );
+      // Prices are in USD; charge in the subscription's currency using the configured FX rate
+      const currencyCode = lineItem.currencyCode;
+      const fxRate = currencyCode === 'USD' ? 1 : options.fxRates?.get(currencyCode);
+      if (!fxRate) {
+        return {
+          shop: session.shop,
+          status: 'failed',
+          error: `No FX rate configured for ${currencyCode}`,
+          errorCategory: 'validation',
+          amount,
+          currencyCode,
+        };
+      }
+      const localAmount = roundToCurrency(amount * fxRate, currencyCode);
+
+      // Shopify rejects usage records beyond the cap, so charge at most the remaining headroom
+      const headroom = lineItem.cappedAmount === undefined
+        ? Infinity
+        : Math.max(0, roundToCurrency(lineItem.cappedAmount - lineItem.balanceUsed, currencyCode));
+      const chargeAmount = Math.min(localAmount, headroom);
+      const unbilledAmount = roundToCurrency(localAmount - chargeAmount, currencyCode);
+
+      const chargeId = chargeAmount > 0 && !options.dryRun
+        ? await this.createUsageCharge(session, lineItem.id, chargeAmount, currencyCode, billingDate)
+        : undefined;
+
+      if (unbilledAmount > 0) {
+        console.warn(`Capped amount reached for ${session.shop}: charged ${chargeAmount} ${currencyCode}, unbilled ${unbilledAmount} ${currencyCode}`);
+      }
 
       return {
         shop: session.shop,
         chargeId,
-        status: 'success',
+        status: unbilledAmount > 0 ? 'capped' : 'success',
         amount,
+        chargedAmount: chargeAmount,
+        unbilledAmount,
+        cappedAmount: lineItem.cappedAmount,
+        balanceUsed: roundToCurrency(lineItem.balanceUsed + chargeAmount, currencyCode),
+        currencyCode,
+        fxRate,
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
+      const errorCategory = classifyChargeError(error);
       
-      if (attempt < this.maxRetries) {
-        const delay = this.retryDelay * Math.pow(2, attempt - 1);
+      // Auth, missing subscription, cap and validation failures fail the same way on every attempt
+      if (errorCategory === 'transient' && attempt < this.maxRetries) {
+        // Throttled requests wait in the throttle instead of backing off blindly
+        const delay = error instanceof ThrottledError ? 0 : this.retryDelay * Math.pow(2, attempt - 1);
         console.log(`Retrying charge for ${session.shop} after ${delay}ms (attempt ${attempt}/${this.maxRetries})`);
         
         await new Promise(resolve => setTimeout(resolve, delay));
-        return this.chargeShopWithRetry(session, amount, attempt + 1);
+        return this.chargeShopWithRetry(session, amount, billingDate, options, attempt + 1);
       }
 
-      console.error(`Failed to charge ${session.shop} after ${this.maxRetries} attempts:`, errorMessage);
+      console.error(`Failed to charge ${session.shop} after ${attempt} attempts (${errorCategory}):`, errorMessage);
       
       return {
         shop: session.shop,
         status: 'failed',
         error: errorMessage,
+        errorCategory,
         amount,
       };
     }
   }
 
-  private async getSubscriptionLineItemId(session: ShopifySession): Promise<string | null> {
+  private async getUsageLineItem(session: ShopifySession): Promise<UsageLineItem | null> {
     const query = `
       query {
         currentAppInstallation {
@@ -149,6 +326,16 @@ export class ShopifyBillingService {
               plan {
                 pricingDetails {
                   __typename
+                  ... on AppUsagePricing {
+                    cappedAmount {
+                      amount
+                      currencyCode
+                    }
+                    balanceUsed {
+                      amount
+                      currencyCode
+                    }
+                  }
                 }
               }
             }
@@ -171,8 +358,14 @@ export class ShopifyBillingService {
     for (const subscription of subscriptions) {
       const lineItems = subscription.lineItems || [];
       for (const item of lineItems) {
-        if (item.plan?.pricingDetails?.__typename === 'AppUsagePricing') {
-          return item.id;
+        const pricingDetails = item.plan?.pricingDetails;
+        if (pricingDetails?.__typename === 'AppUsagePricing') {
+          return {
+            id: item.id,
+            currencyCode: pricingDetails.cappedAmount?.currencyCode || pricingDetails.balanceUsed?.currencyCode || 'USD',
+            cappedAmount: pricingDetails.cappedAmount ? parseFloat(pricingDetails.cappedAmount.amount) : undefined,
+            balanceUsed: pricingDetails.balanceUsed ? parseFloat(pricingDetails.balanceUsed.amount) : 0,
+          };
         }
       }
     }
@@ -183,14 +376,17 @@ export class ShopifyBillingService {
   private async createUsageCharge(
     session: ShopifySession,
     subscriptionLineItemId: string,
-    amount: number
+    amount: number,
+    currencyCode: string,
+    billingDate: string
   ): Promise<string> {
     const mutation = `
-      mutation appUsageRecordCreate($subscriptionLineItemId: ID!, $price: Money!, $description: String!) {
+      mutation appUsageRecordCreate($subscriptionLineItemId: ID!, $price: Money!, $description: String!, $idempotencyKey: String) {
         appUsageRecordCreate(
           subscriptionLineItemId: $subscriptionLineItemId,
           price: $price,
-          description: $description
+          description: $description,
+          idempotencyKey: $idempotencyKey
         ) {
           appUsageRecord {
             id
@@ -206,10 +402,11 @@ export class ShopifyBillingService {
     const variables = {
       subscriptionLineItemId,
       price: {
-        amount: amount.toFixed(2),
-        currencyCode: 'USD'
+        amount: amount.toFixed(getCurrencyDecimals(currencyCode)),
+        currencyCode
       },
-      description: `Web pixel usage charges - ${new Date().toISOString().split('T')[0]}`
+      description: `Web pixel usage charges - ${billingDate}`,
+      idempotencyKey: buildIdempotencyKey(session.shop, billingDate)
     };
 
     const response = await this.makeGraphQLRequest<GraphQLResponse>(
@@ -220,12 +417,13 @@ export class ShopifyBillingService {
 
     const userErrors = response.data?.appUsageRecordCreate?.userErrors;
     if (userErrors && userErrors.length > 0) {
-      throw new Error(`GraphQL errors: ${userErrors.map(e => e.message).join(', ')}`);
+      const messages = userErrors.map(e => e.message);
+      throw new ShopifyChargeError(`GraphQL errors: ${messages.join(', ')}`, classifyUserErrors(messages));
     }
 
     const chargeId = response.data?.appUsageRecordCreate?.appUsageRecord?.id;
     if (!chargeId) {
-      throw new Error('Failed to create usage charge - no charge ID returned');
+      throw new ShopifyChargeError('Failed to create usage charge - no charge ID returned', 'unknown');
     }
 
     return chargeId;
@@ -243,6 +441,8 @@ export class ShopifyBillingService {
     
     const url = `https://${shopDomain}/admin/api/${this.apiVersion}/graphql.json`;
     
+    await this.throttle.acquire(shopDomain);
+
     try {
       const response = await axios.post<T>(
         url,
@@ -256,44 +456,226 @@ export class ShopifyBillingService {
         }
       );
 
-      const responseData = response.data as { errors?: Array<{ message: string }> };
+      const responseData = response.data as Pick<GraphQLResponse, 'errors' | 'extensions'>;
+      const throttleStatus = responseData.extensions?.cost?.throttleStatus;
+      if (throttleStatus) {
+        this.throttle.update(shopDomain, throttleStatus);
+      }
+      if (responseData.errors?.some(e => e.extensions?.code === 'THROTTLED')) {
+        throw new ThrottledError();
+      }
       if (responseData.errors) {
-        throw new Error(`GraphQL errors: ${responseData.errors.map((e) => e.message).join(', ')}`);
+        throw new ShopifyChargeError(
+          `GraphQL errors: ${responseData.errors.map((e) => e.message).join(', ')}`,
+          classifyGraphQLErrorCode(responseData.errors[0].extensions?.code)
+        );
       }
 
       return response.data as T;
     } catch (error) {
       if (axios.isAxiosError(error)) {
-        if (error.response?.status === 401) {
-          throw new Error('Invalid access token');
+        if (error.response?.status === 401 || error.response?.status === 403) {
+          throw new ShopifyChargeError(
+            error.response.status === 401 ? 'Invalid access token' : 'Access denied',
+            'auth',
+            error.response.status
+          );
         }
         if (error.response?.status === 429) {
-          throw new Error('Rate limit exceeded');
+          this.throttle.block(shopDomain, parseRetryAfter(error.response.headers?.['retry-after']));
+          throw new ThrottledError();
         }
         if (error.response && error.response.status && error.response.status >= 500) {
-          throw new Error(`Shopify API error: ${error.response.status}`);
+          throw new ShopifyChargeError(`Shopify API error: ${error.response.status}`, 'transient', error.response.status);
         }
-        throw new Error(`API request failed: ${error.message}`);
+        // No response at all means a timeout or network failure
+        throw new ShopifyChargeError(
+          `API request failed: ${error.message}`,
+          error.response ? 'unknown' : 'transient',
+          error.response?.status
+        );
       }
       throw error;
     }
   }
 
-  async testConnection(session: ShopifySession): Promise<boolean> {
-    try {
-      const query = `
-        query {
-          shop {
-            name
+  /**
+   * Usage records on the shop's usage line item created on or after `since` (ISO timestamp),
+   * newest first, following the connection's cursor until older records are reached.
+   */
+  async getUsageRecords(session: ShopifySession, since: string): Promise<ShopifyUsageRecord[]> {
+    const query = `
+      query usageRecords($after: String) {
+        currentAppInstallation {
+          activeSubscriptions {
+            lineItems {
+              id
+              plan {
+                pricingDetails {
+                  __typename
+                }
+              }
+              usageRecords(first: 100, after: $after, sortKey: CREATED_AT, reverse: true) {
+                edges {
+                  node {
+                    id
+                    createdAt
+                    description
+                    idempotencyKey
+                    price {
+                      amount
+                      currencyCode
+                    }
+                  }
+                }
+                pageInfo {
+                  hasNextPage
+                  endCursor
+                }
+              }
+            }
           }
         }
-      `;
+      }
+    `;
 
+    const records: ShopifyUsageRecord[] = [];
+    const sinceTime = Date.parse(since);
+    let after: string | null | undefined = null;
+
+    for (;;) {
+      const response: GraphQLResponse = await this.makeGraphQLRequest<GraphQLResponse>(session, query, { after });
+      const lineItem = response.data?.currentAppInstallation?.activeSubscriptions
+        ?.flatMap(subscription => subscription.lineItems || [])
+        .find(item => item.plan?.pricingDetails?.__typename === 'AppUsagePricing');
+      const connection = lineItem?.usageRecords;
+      if (!connection) {
+        return records;
+      }
+
+      let reachedOlderRecords = false;
+      for (const { node } of connection.edges) {
+        if (Date.parse(node.createdAt) < sinceTime) {
+          reachedOlderRecords = true;
+          break;
+        }
+        records.push({
+          id: node.id,
+          createdAt: node.createdAt,
+          description: node.description,
+          idempotencyKey: node.idempotencyKey ?? undefined,
+          amount: parseFloat(node.price.amount),
+          currencyCode: node.price.currencyCode,
+          billingDate: node.description.match(USAGE_DESCRIPTION_PATTERN)?.[1],
+        });
+      }
+
+      if (reachedOlderRecords || !connection.pageInfo.hasNextPage) {
+        return records;
+      }
+      after = connection.pageInfo.endCursor;
+    }
+  }
+
+  /**
+   * IANA timezone of each shop (e.g. "America/New_York"). Shops whose lookup fails are
+   * left out so the caller falls back to the billing timezone.
+   */
+  async getShopTimezones(sessions: ShopifySession[]): Promise<Map<string, string>> {
+    const query = `
+      query {
+        shop {
+          ianaTimezone
+        }
+      }
+    `;
+
+    const timezones = new Map<string, string>();
+    await Promise.all(sessions.map(session =>
+      this.concurrencyLimit(async () => {
+        try {
+          const response = await this.makeGraphQLRequest<GraphQLResponse>(session, query);
+          const ianaTimezone = response.data?.shop?.ianaTimezone;
+          if (ianaTimezone) {
+            timezones.set(session.shop, ianaTimezone);
+          }
+        } catch (error) {
+          console.error(`Failed to fetch timezone for ${session.shop}:`, error);
+        }
+      })
+    ));
+
+    return timezones;
+  }
+
+  /**
+   * Pre-flight check of whether the shop can be billed. Returns null when the check itself
+   * failed for another reason (timeout, 5xx), so the caller keeps the last known status.
+   */
+  async checkShopStatus(session: ShopifySession): Promise<ShopStatus | null> {
+    const query = `
+      query {
+        shop {
+          name
+        }
+      }
+    `;
+
+    try {
       await this.makeGraphQLRequest(session, query);
-      return true;
+      return 'active';
     } catch (error) {
-      console.error(`Connection test failed for ${session.shop}:`, error);
-      return false;
+      const httpStatus = error instanceof ShopifyChargeError ? error.httpStatus : undefined;
+      switch (httpStatus) {
+        // The access token is revoked when the app is uninstalled
+        case 401:
+          return 'uninstalled';
+        // 402 Payment Required: frozen for unpaid Shopify bills; 423 Locked: locked by Shopify
+        case 402:
+        case 423:
+          return 'frozen';
+        // The store no longer exists
+        case 404:
+          return 'closed';
+        default:
+          console.error(`Connection test failed for ${session.shop}:`, error);
+          return null;
+      }
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Checks every shop, falling back to older sessions when the primary token is rejected.
+   * The returned session is the one that answered, or the primary one if none did.
+   */
+  async checkShopStatuses(
+    sessions: ShopifySession[],
+    fallbackSessions: Map<string, ShopifySession[]> = new Map()
+  ): Promise<Map<string, { status: ShopStatus | null; session: ShopifySession }>> {
+    const statuses = new Map<string, { status: ShopStatus | null; session: ShopifySession }>();
+    await Promise.all(sessions.map(session =>
+      this.concurrencyLimit(async () => {
+        let status = await this.checkShopStatus(session);
+        let usedSession = session;
+
+        for (const fallback of fallbackSessions.get(session.shop) || []) {
+          if (status !== 'uninstalled') {
+            break;
+          }
+          const fallbackStatus = await this.checkShopStatus(fallback);
+          if (fallbackStatus === 'active') {
+            status = fallbackStatus;
+            usedSession = fallback;
+          }
+        }
+
+        statuses.set(session.shop, { status, session: usedSession });
+      })
+    ));
+    return statuses;
+  }
+
+  async testConnection(session: ShopifySession): Promise<boolean> {
+    return (await this.checkShopStatus(session)) === 'active';
+  }
+}
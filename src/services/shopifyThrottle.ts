@@ -0,0 +1,125 @@
+export interface ThrottleStatus {
+  maximumAvailable: number;
+  currentlyAvailable: number;
+  restoreRate: number;
+}
+
+export interface QueryCost {
+  requestedQueryCost?: number;
+  actualQueryCost?: number | null;
+  throttleStatus?: ThrottleStatus;
+}
+
+interface Bucket {
+  maximumAvailable: number;
+  available: number;
+  restoreRate: number;
+  updatedAt: number;
+  blockedUntil: number;
+}
+
+// Cost reserved for a request before Shopify tells us what it actually cost
+export const DEFAULT_REQUEST_COST = 10;
+
+// Used when a 429 carries no Retry-After header
+const DEFAULT_RETRY_AFTER_MS = 1000;
+
+/**
+ * Parses a Retry-After header (delta-seconds or HTTP date) into milliseconds to wait.
+ */
+export function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Per-shop leaky-bucket model of Shopify's GraphQL cost limit. Each response's
+ * `extensions.cost.throttleStatus` resets the bucket; between responses it refills
+ * at restoreRate points per second. Shops we have not seen yet are not delayed.
+ */
+export class ShopifyThrottle {
+  private buckets = new Map<string, Bucket>();
+  private now: () => number;
+  private sleep: (ms: number) => Promise<void>;
+
+  constructor(
+    now: () => number = Date.now,
+    sleep: (ms: number) => Promise<void> = ms => new Promise(resolve => setTimeout(resolve, ms))
+  ) {
+    this.now = now;
+    this.sleep = sleep;
+  }
+
+  /**
+   * Waits until the shop's bucket can pay for the request, then reserves the cost.
+   */
+  async acquire(shop: string, cost: number = DEFAULT_REQUEST_COST): Promise<void> {
+    for (;;) {
+      const bucket = this.buckets.get(shop);
+      if (!bucket) {
+        return;
+      }
+
+      this.refill(bucket);
+      const now = this.now();
+      if (bucket.blockedUntil > now) {
+        await this.sleep(bucket.blockedUntil - now);
+        continue;
+      }
+
+      const needed = Math.min(cost, bucket.maximumAvailable);
+      if (bucket.available >= needed) {
+        bucket.available -= needed;
+        return;
+      }
+
+      await this.sleep(Math.ceil(((needed - bucket.available) / bucket.restoreRate) * 1000));
+    }
+  }
+
+  /**
+   * Replaces the modelled state with what Shopify reported after a request.
+   */
+  update(shop: string, status: ThrottleStatus): void {
+    const existing = this.buckets.get(shop);
+    this.buckets.set(shop, {
+      maximumAvailable: status.maximumAvailable,
+      available: status.currentlyAvailable,
+      restoreRate: status.restoreRate,
+      updatedAt: this.now(),
+      blockedUntil: existing?.blockedUntil ?? 0,
+    });
+  }
+
+  /**
+   * Blocks the shop after a 429, for Retry-After when Shopify sent it.
+   */
+  block(shop: string, retryAfterMs: number = DEFAULT_RETRY_AFTER_MS): void {
+    // Without a reported status only the block applies, not the cost model
+    const bucket = this.buckets.get(shop) ?? {
+      maximumAvailable: DEFAULT_REQUEST_COST,
+      available: DEFAULT_REQUEST_COST,
+      restoreRate: DEFAULT_REQUEST_COST,
+      updatedAt: this.now(),
+      blockedUntil: 0,
+    };
+    bucket.blockedUntil = Math.max(bucket.blockedUntil, this.now() + retryAfterMs);
+    this.buckets.set(shop, bucket);
+  }
+
+  private refill(bucket: Bucket): void {
+    const now = this.now();
+    const elapsedSeconds = (now - bucket.updatedAt) / 1000;
+    bucket.available = Math.min(bucket.maximumAvailable, bucket.available + elapsedSeconds * bucket.restoreRate);
+    bucket.updatedAt = now;
+  }
+}
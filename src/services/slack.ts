@@ -1,14 +1,137 @@
-import { WebClient } from '@slack/web-api';
-import { ShopBillingResult } from '../types/billing';
+import { WebClient, KnownBlock } from '@slack/web-api';
+import axios from 'axios';
+import {
+  APPROVE_ACTION_ID,
+  REJECT_ACTION_ID,
+  ADJUST_ACTION_ID,
+  ADJUST_MODAL_CALLBACK_ID,
+  ADJUST_AMOUNT_BLOCK_ID,
+  ADJUST_AMOUNT_ACTION_ID,
+  ApprovalMessageRef
+} from './slackInteractions';
+import { toCsv } from '../utils/csv';
+import { Translator, DEFAULT_LOCALE } from '../i18n';
+import { ShopBillingResult, ChargeErrorCategory, ShopStatus, ReconciliationResult, ReconciliationFindingType, BillingRecord, DailyBillingResult, BatchResult, ShopFailureDigest } from '../types/billing';
+
+// Slack's limits per message and per section text
+export const MAX_BLOCKS_PER_MESSAGE = 50;
+export const MAX_SECTION_TEXT_LENGTH = 3000;
+
+interface SlackBlock {
+  type: string;
+  text?: { type: string; text: string };
+}
+
+const SHOP_RESULT_CSV_COLUMNS: Array<keyof ShopBillingResult> = [
+  'shop',
+  'pageViews',
+  'billingAmount',
+  'carryOverConsumed',
+  'bigQuerySaved',
+  'bigQueryError',
+  'shopifyStatus',
+  'shopifyChargeId',
+  'chargedAmount',
+  'currencyCode',
+  'fxRate',
+  'unbilledAmount',
+  'cappedAmount',
+  'balanceUsed',
+  'errorCategory',
+  'shopifyError',
+  'holdReason',
+];
+
+// Splits at line breaks where possible; a single line longer than the limit is cut
+function splitText(text: string, maxLength: number): string[] {
+  const parts: string[] = [];
+  let current = '';
+  text.split('\n').forEach(line => {
+    for (let rest = line; ; rest = rest.slice(maxLength)) {
+      const piece = rest.slice(0, maxLength);
+      const candidate = current ? `${current}\n${piece}` : piece;
+      if (candidate.length <= maxLength) {
+        current = candidate;
+      } else {
+        parts.push(current);
+        current = piece;
+      }
+      if (rest.length <= maxLength) {
+        break;
+      }
+    }
+  });
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Splits blocks into messages Slack accepts: section texts over the character limit become several
+ * sections, and every message carries at most MAX_BLOCKS_PER_MESSAGE blocks.
+ */
+export function splitBlocksIntoMessages<T extends SlackBlock>(
+  blocks: T[],
+  maxBlocks: number = MAX_BLOCKS_PER_MESSAGE,
+  maxTextLength: number = MAX_SECTION_TEXT_LENGTH
+): T[][] {
+  const expanded = blocks.flatMap(block =>
+    block.type === 'section' && block.text && block.text.text.length > maxTextLength
+      ? splitText(block.text.text, maxTextLength).map(text => ({ ...block, text: { ...block.text, text } }) as T)
+      : [block]
+  );
+
+  const messages: T[][] = [];
+  for (let i = 0; i < expanded.length; i += maxBlocks) {
+    messages.push(expanded.slice(i, i + maxBlocks));
+  }
+  return messages.length > 0 ? messages : [[]];
+}
+
+/**
+ * Every shop result of a run, one row per shop.
+ */
+export function formatShopResultsCsv(shopResults: ShopBillingResult[]): string {
+  return toCsv([
+    SHOP_RESULT_CSV_COLUMNS,
+    ...shopResults.map(shop => SHOP_RESULT_CSV_COLUMNS.map(column => shop[column])),
+  ]);
+}
+
+/**
+ * SLACK_CHANNEL_IDS is a comma-separated list; SLACK_CHANNEL_ID is the older single-channel setting.
+ */
+export function parseChannelIds(value: string | undefined): string[] {
+  return (value ?? '').split(',').map(id => id.trim()).filter(id => id !== '');
+}
+
+/**
+ * SLACK_CHANNEL_LOCALES maps channels to report locales, e.g. `C111:en,C222:ja`.
+ */
+export function parseChannelLocales(value: string | undefined): Map<string, string> {
+  return new Map(parseChannelIds(value)
+    .map(entry => entry.split(':').map(part => part.trim()))
+    .filter((parts): parts is [string, string] => parts.length === 2 && parts[0] !== '' && parts[1] !== ''));
+}
+
+export interface SlackServiceOptions {
+  // Defaults to the first channel of SLACK_CHANNEL_IDS
+  channelId?: string;
+  // Report locale; a SLACK_CHANNEL_LOCALES entry for the channel takes precedence, SLACK_LOCALE is the default
+  locale?: string;
+  // Web API base URL, for pointing the client at a stub server
+  apiUrl?: string;
+}
 
 export class SlackService {
   private client: WebClient;
   private channelId: string;
   private isDummyToken: boolean;
+  private capWarningRatio: number;
+  readonly i18n: Translator;
 
-  constructor() {
+  constructor(options: SlackServiceOptions = {}) {
     const botToken = process.env.SLACK_BOT_TOKEN;
-    const channelId = process.env.SLACK_CHANNEL_IDS || process.env.SLACK_CHANNEL_ID;
+    const channelId = options.channelId ?? parseChannelIds(process.env.SLACK_CHANNEL_IDS || process.env.SLACK_CHANNEL_ID)[0];
 
     if (!botToken) {
       throw new Error('SLACK_BOT_TOKEN environment variable is required');
@@ -22,49 +145,33 @@ export class SlackService {
       console.warn('Using dummy Slack token - Slack notifications will be disabled');
     }
 
-    this.client = new WebClient(botToken);
+    this.client = new WebClient(botToken, options.apiUrl ? { slackApiUrl: options.apiUrl } : {});
     this.channelId = channelId;
+    // Share of the Shopify capped amount above which a shop is reported as approaching its cap
+    this.capWarningRatio = parseFloat(process.env.CAP_WARNING_RATIO || '0.8');
+    this.i18n = new Translator(
+      parseChannelLocales(process.env.SLACK_CHANNEL_LOCALES).get(channelId) ||
+      options.locale || process.env.SLACK_LOCALE || DEFAULT_LOCALE
+    );
   }
 
-  async sendBatchResult(result: {
-    success: boolean;
-    message: string;
-    timestamp: string;
-    error?: string;
-    scheduled?: boolean;
-    testDate?: string;
-    billingDetails?: {
-      targetDate: string;
-      skipped: boolean;
-      skipReason?: string;
-      activeSessions: number;
-      shopsWithPageViews: number;
-      billingRecordsGenerated: number;
-      totalPageViews: number;
-      totalAmount: number;
-      chargeResults?: any[];
-      shopResults?: ShopBillingResult[];
-      errorDetails?: {
-        message: string;
-        timestamp: string;
-        stack?: string;
-      };
-    };
-  }): Promise<void> {
+  async sendBatchResult(result: BatchResult): Promise<void> {
     if (this.isDummyToken) {
       console.log('Slack notification skipped (dummy token):', result.message);
       return;
     }
 
     try {
-      const { success, message, timestamp, error, scheduled, testDate, billingDetails } = result;
+      const { success, message, timestamp, error, scheduled, testDate, billingDetails, backfillDetails } = result;
+      const { t, formatNumber, formatMoney } = this.formatters();
       
       const blocks = [
         {
           type: 'header',
           text: {
             type: 'plain_text',
-            text: success ? '✅ バッチ処理完了' : '❌ バッチ処理エラー'
+            text: !success ? t('batch.header.error') :
+              billingDetails?.dryRun ? t('batch.header.dryRun') : t('batch.header.success')
           }
         },
         {
@@ -72,11 +179,11 @@ export class SlackService {
           fields: [
             {
               type: 'mrkdwn',
-              text: `*ステータス:*\n${success ? '成功' : '失敗'}`
+              text: `*${t('batch.label.status')}:*\n${success ? t('batch.status.success') : t('batch.status.failure')}`
             },
             {
               type: 'mrkdwn',
-              text: `*実行時刻:*\n${timestamp}`
+              text: `*${t('batch.label.executedAt')}:*\n${timestamp}`
             }
           ]
         },
@@ -84,35 +191,86 @@ export class SlackService {
           type: 'section',
           text: {
             type: 'mrkdwn',
-            text: `*メッセージ:*\n${message}`
+            text: `*${t('batch.label.message')}:*\n${message}`
           }
         }
       ];
 
       // Add billing details if available
       if (billingDetails) {
-        const { targetDate, skipped, skipReason, activeSessions, shopsWithPageViews, billingRecordsGenerated, totalPageViews, totalAmount, chargeResults, shopResults, errorDetails } = billingDetails;
+        const { targetDate, skipped, skipReason, activeSessions, shopsWithPageViews, billingRecordsGenerated, totalPageViews, totalAmount, chargeResults, shopResults, currentSummary, inactiveShops, deferredShops, shopStatusChanges, discardedSessions, runId, dispatchedJobs, errorDetails } = billingDetails;
         
         blocks.push({
           type: 'section',
           fields: [
             {
               type: 'mrkdwn',
-              text: `*処理対象日:*\n${targetDate}`
+              text: `*${t('batch.label.targetDate')}:*\n${targetDate}`
             },
             {
               type: 'mrkdwn',
-              text: `*処理結果:*\n${skipped ? '⏭️ スキップ' : '✅ 実行'}`
+              text: `*${t('batch.label.outcome')}:*\n${skipped ? t('batch.outcome.skipped') : t('batch.outcome.executed')}`
             }
           ]
         });
 
+        // Shops that became uninstalled, frozen or closed (or came back) since the last check
+        if ((shopStatusChanges && shopStatusChanges.length > 0) || inactiveShops) {
+          let statusText = `*${t('batch.label.shopStatus')}:*\n${t('batch.inactiveShops', { count: inactiveShops || 0 })}`;
+          shopStatusChanges?.forEach(change => {
+            const previous = change.previousStatus ? this.getShopStatusText(change.previousStatus) : t('batch.shopStatusUnchecked');
+            statusText += `\n🔄 *${change.shop}*: ${previous} → ${this.getShopStatusText(change.status)}`;
+          });
+          blocks.push({
+            type: 'section',
+            text: {
+              type: 'mrkdwn',
+              text: statusText
+            }
+          });
+        }
+
+        // Shops a later run bills once the date has ended in their timezone
+        if (deferredShops) {
+          blocks.push({
+            type: 'section',
+            text: {
+              type: 'mrkdwn',
+              text: t('batch.deferredShops', { count: deferredShops })
+            }
+          });
+        }
+
+        // Older offline tokens kept only as fallbacks; online tokens are never used for billing
+        const duplicateSessions = discardedSessions?.filter(session => session.reason === 'duplicate') || [];
+        if (duplicateSessions.length > 0) {
+          const maxSessionsToShow = 10;
+          let duplicateText = t('batch.duplicateSessions', { count: duplicateSessions.length });
+          duplicateSessions.slice(0, maxSessionsToShow).forEach(session => {
+            duplicateText += '\n' + t('batch.duplicateSession', {
+              shop: session.shop,
+              sessionId: session.session_id,
+              keptSessionId: session.kept_session_id ?? '',
+            });
+          });
+          if (duplicateSessions.length > maxSessionsToShow) {
+            duplicateText += '\n' + t('common.omitted', { count: duplicateSessions.length - maxSessionsToShow });
+          }
+          blocks.push({
+            type: 'section',
+            text: {
+              type: 'mrkdwn',
+              text: duplicateText
+            }
+          });
+        }
+
         if (skipped && skipReason) {
           blocks.push({
             type: 'section',
             text: {
               type: 'mrkdwn',
-              text: `*スキップ理由:*\n${skipReason}`
+              text: `*${t('batch.label.skipReason')}:*\n${skipReason}`
             }
           });
         }
@@ -123,11 +281,11 @@ export class SlackService {
             fields: [
               {
                 type: 'mrkdwn',
-                text: `*アクティブセッション数:*\n${activeSessions.toLocaleString()}`
+                text: `*${t('batch.label.activeSessions')}:*\n${formatNumber(activeSessions)}`
               },
               {
                 type: 'mrkdwn',
-                text: `*ページビューのあるショップ数:*\n${shopsWithPageViews.toLocaleString()}`
+                text: `*${t('batch.label.shopsWithPageViews')}:*\n${formatNumber(shopsWithPageViews)}`
               }
             ]
           });
@@ -137,11 +295,11 @@ export class SlackService {
             fields: [
               {
                 type: 'mrkdwn',
-                text: `*請求レコード数:*\n${billingRecordsGenerated.toLocaleString()}`
+                text: `*${t('batch.label.billingRecords')}:*\n${formatNumber(billingRecordsGenerated)}`
               },
               {
                 type: 'mrkdwn',
-                text: `*総ページビュー数:*\n${totalPageViews.toLocaleString()}`
+                text: `*${t('batch.label.totalPageViews')}:*\n${formatNumber(totalPageViews)}`
               }
             ]
           });
@@ -150,7 +308,7 @@ export class SlackService {
             type: 'section',
             text: {
               type: 'mrkdwn',
-              text: `*総請求金額:*\n$${totalAmount.toFixed(2)}`
+              text: `*${t('batch.label.totalAmount')}:*\n${formatMoney(totalAmount)}`
             }
           });
 
@@ -159,18 +317,146 @@ export class SlackService {
             const successfulCharges = chargeResults.filter(r => r.status === 'success').length;
             const failedCharges = chargeResults.filter(r => r.status === 'failed').length;
             const skippedCharges = chargeResults.filter(r => r.status === 'skipped').length;
+            const alreadyChargedCount = chargeResults.filter(r => r.status === 'already_charged').length;
+            const cappedCharges = chargeResults.filter(r => r.status === 'capped').length;
 
             blocks.push({
               type: 'section',
               fields: [
                 {
                   type: 'mrkdwn',
-                  text: `*Shopify請求結果:*\n✅ 成功: ${successfulCharges}\n❌ 失敗: ${failedCharges}\n⏭️ スキップ: ${skippedCharges}`
+                  text: t('batch.chargeResults', {
+                    success: successfulCharges,
+                    failed: failedCharges,
+                    skipped: skippedCharges,
+                    alreadyCharged: alreadyChargedCount,
+                    capped: cappedCharges,
+                  })
                 }
               ]
             });
+
+            // Failure breakdown so operations can tell retryable failures from ones that need action
+            const failuresByCategory = new Map<ChargeErrorCategory, number>();
+            chargeResults
+              .filter(r => r.status === 'failed')
+              .forEach(r => {
+                const category: ChargeErrorCategory = r.errorCategory || 'unknown';
+                failuresByCategory.set(category, (failuresByCategory.get(category) || 0) + 1);
+              });
+            if (failuresByCategory.size > 0) {
+              const categoryText = Array.from(failuresByCategory)
+                .map(([category, count]) => `${this.getErrorCategoryText(category)} (\`${category}\`): ${count}`)
+                .join('\n');
+              blocks.push({
+                type: 'section',
+                text: {
+                  type: 'mrkdwn',
+                  text: `*${t('batch.label.failureCategories')}:*\n${categoryText}`
+                }
+              });
+            }
           }
 
+          // Charges fanned out to chargeWorker; the finalizer sends the outcome as a separate report
+          if (dispatchedJobs !== undefined) {
+            blocks.push({
+              type: 'section',
+              text: {
+                type: 'mrkdwn',
+                text: t('batch.dispatchedJobs', { count: dispatchedJobs, runId: runId ?? '' })
+              }
+            });
+          }
+
+          // Totals across every run for the date, one row per shop, so re-runs are not double-counted
+          if (currentSummary) {
+            blocks.push({
+              type: 'section',
+              text: {
+                type: 'mrkdwn',
+                text: t('batch.currentSummary', {
+                  shops: formatNumber(Number(currentSummary.shops)),
+                  pageViews: formatNumber(Number(currentSummary.total_page_views)),
+                  amount: formatMoney(Number(currentSummary.total_amount)),
+                  success: currentSummary.success_count,
+                  failed: currentSummary.failed_count,
+                  capped: currentSummary.capped_count,
+                  held: currentSummary.held_count ?? 0,
+                  awaitingApproval: currentSummary.awaiting_approval_count ?? 0,
+                  pending: currentSummary.pending_count,
+                })
+              }
+            });
+          }
+
+        }
+
+        // Charges held by anomaly detection wait for an operator (/releaseHeldCharge)
+        const heldShops = shopResults?.filter(shop => shop.shopifyStatus === 'held') || [];
+        if (heldShops.length > 0) {
+          const heldText = heldShops.slice(0, 10).map(shop =>
+            t('batch.heldShop', { shop: shop.shop, pageViews: formatNumber(shop.pageViews), amount: formatMoney(shop.billingAmount) }) +
+            (shop.anomalyBaseline !== undefined ? t('batch.heldBaseline', { baseline: formatNumber(Number(shop.anomalyBaseline)) }) : '')
+          ).join('\n');
+          blocks.push({
+            type: 'section',
+            text: {
+              type: 'mrkdwn',
+              text: `${t('batch.held', { count: heldShops.length })}\n${heldText}\n${t('batch.heldHint')}`
+            }
+          });
+        }
+
+        const awaitingApprovalShops = shopResults?.filter(shop => shop.shopifyStatus === 'awaiting_approval') || [];
+        if (awaitingApprovalShops.length > 0) {
+          blocks.push({
+            type: 'section',
+            text: {
+              type: 'mrkdwn',
+              text: `${t('batch.awaitingApproval', { count: awaitingApprovalShops.length })}\n` +
+                awaitingApprovalShops.slice(0, 10).map(shop => `• ${shop.shop}: ${formatMoney(shop.billingAmount)}`).join('\n')
+            }
+          });
+        }
+
+        // Shops that hit or are approaching their Shopify capped amount
+        const cappedShops = shopResults?.filter(shop => shop.shopifyStatus === 'capped') || [];
+        const approachingCapShops = shopResults?.filter(shop =>
+          shop.shopifyStatus !== 'capped' &&
+          shop.cappedAmount !== undefined &&
+          shop.balanceUsed !== undefined &&
+          shop.cappedAmount > 0 &&
+          shop.balanceUsed / shop.cappedAmount >= this.capWarningRatio
+        ) || [];
+
+        if (cappedShops.length > 0 || approachingCapShops.length > 0) {
+          let capText = '';
+          cappedShops.forEach(shop => {
+            capText += t('batch.capReached', {
+              shop: shop.shop,
+              used: formatMoney(shop.balanceUsed ?? 0, shop.currencyCode),
+              cap: formatMoney(shop.cappedAmount ?? 0, shop.currencyCode),
+              unbilled: formatMoney(shop.unbilledAmount ?? 0, shop.currencyCode),
+            }) + '\n';
+          });
+          approachingCapShops.forEach(shop => {
+            const usage = Math.round(((shop.balanceUsed as number) / (shop.cappedAmount as number)) * 100);
+            capText += t('batch.capApproaching', {
+              shop: shop.shop,
+              usage,
+              used: formatMoney(shop.balanceUsed as number, shop.currencyCode),
+              cap: formatMoney(shop.cappedAmount as number, shop.currencyCode),
+            }) + '\n';
+          });
+
+          blocks.push({
+            type: 'section',
+            text: {
+              type: 'mrkdwn',
+              text: `*${t('batch.label.cap')}:*\n${capText.trim()}`
+            }
+          });
         }
 
         // Add error details if available
@@ -179,7 +465,7 @@ export class SlackService {
             type: 'section',
             text: {
               type: 'mrkdwn',
-              text: `*🔴 エラー詳細:*\n\`\`\`${errorDetails.message}\`\`\``
+              text: `*${t('batch.label.errorDetails')}:*\n\`\`\`${errorDetails.message}\`\`\``
             }
           });
 
@@ -188,7 +474,7 @@ export class SlackService {
               type: 'section',
               text: {
                 type: 'mrkdwn',
-                text: `*🔍 スタックトレース:*\n\`\`\`${errorDetails.stack.substring(0, 1000)}\`\`\``
+                text: `*${t('batch.label.stackTrace')}:*\n\`\`\`${errorDetails.stack.substring(0, 1000)}\`\`\``
               }
             });
           }
@@ -207,7 +493,7 @@ export class SlackService {
             type: 'section',
             text: {
               type: 'mrkdwn',
-              text: '*📊 ショップ別処理結果:*'
+              text: `*${t('batch.label.shopResults')}:*`
             }
           });
 
@@ -220,18 +506,31 @@ export class SlackService {
             const bigQueryIcon = shop.bigQuerySaved ? '✅' : '❌';
             const shopifyIcon = shop.shopifyStatus === 'success' ? '✅' : 
                               shop.shopifyStatus === 'failed' ? '❌' : 
-                              shop.shopifyStatus === 'skipped' ? '⏭️' : '⏳';
+                              shop.shopifyStatus === 'skipped' ? '⏭️' : 
+                              shop.shopifyStatus === 'already_charged' ? '🔁' : 
+                              shop.shopifyStatus === 'capped' ? '🧢' :
+                              shop.shopifyStatus === 'held' ? '✋' :
+                              shop.shopifyStatus === 'awaiting_approval' ? '🖐' :
+                              shop.shopifyStatus === 'rejected' ? '🚫' : '⏳';
             
             detailText += `*${shop.shop}*\n`;
-            detailText += `📊 ${shop.pageViews.toLocaleString()} views / $${shop.billingAmount}\n`;
-            detailText += `${bigQueryIcon} BigQuery ${shop.bigQuerySaved ? '保存成功' : '保存失敗'}\n`;
+            detailText += t('batch.shopUsage', { pageViews: formatNumber(shop.pageViews), amount: formatMoney(shop.billingAmount) });
+            if (shop.carryOverConsumed) {
+              detailText += t('batch.carryOver', { amount: formatMoney(shop.carryOverConsumed, 'USD', 4) });
+            }
+            if (shop.currencyCode && shop.currencyCode !== 'USD' && shop.chargedAmount !== undefined) {
+              detailText += ` → ${formatMoney(shop.chargedAmount, shop.currencyCode)} (1 USD = ${shop.fxRate} ${shop.currencyCode})`;
+            }
+            detailText += '\n';
+            detailText += `${bigQueryIcon} ${shop.bigQuerySaved ? t('batch.bigQuerySaved') : t('batch.bigQueryFailed')}\n`;
             detailText += `${shopifyIcon} Shopify ${this.getShopifyStatusText(shop.shopifyStatus)}`;
             
             if (shop.bigQueryError) {
-              detailText += `\n🔴 BigQuery エラー: ${shop.bigQueryError}`;
+              detailText += '\n' + t('batch.bigQueryError', { error: shop.bigQueryError });
             }
             if (shop.shopifyError) {
-              detailText += `\n🔴 Shopify エラー: ${shop.shopifyError}`;
+              const category = shop.errorCategory ? `[${this.getErrorCategoryText(shop.errorCategory)}] ` : '';
+              detailText += '\n' + t('batch.shopifyError', { category, error: shop.shopifyError });
             }
             
             detailText += '\n\n';
@@ -252,19 +551,66 @@ export class SlackService {
               type: 'section',
               text: {
                 type: 'mrkdwn',
-                text: `_... 他 ${remainingCount} ショップの結果は省略_`
+                text: t('batch.moreShops', { count: remainingCount })
               }
             });
           }
         }
       }
 
+      // Add per-date summary for backfill runs
+      if (backfillDetails) {
+        blocks.push({
+          type: 'section',
+          fields: [
+            {
+              type: 'mrkdwn',
+              text: `*${t('batch.label.backfillRange')}:*\n${t('common.range', { start: backfillDetails.startDate, end: backfillDetails.endDate })}`
+            },
+            {
+              type: 'mrkdwn',
+              text: `*${t('batch.label.missingDates')}:*\n${backfillDetails.missingDates.length}`
+            }
+          ]
+        });
+
+        if (backfillDetails.results.length > 0) {
+          let dateSummaryText = '';
+          backfillDetails.results.forEach(dateResult => {
+            const statusIcon = !dateResult.success ? '❌' : dateResult.skipped ? '⏭️' : '✅';
+            const successfulCharges = dateResult.chargeResults?.filter(r => r.status === 'success').length || 0;
+            const failedCharges = dateResult.chargeResults?.filter(r => r.status === 'failed').length || 0;
+
+            dateSummaryText += `${statusIcon} *${dateResult.targetDate}*: `;
+            if (!dateResult.success || dateResult.skipped) {
+              dateSummaryText += `${dateResult.skipReason || t('common.unknown')}\n`;
+            } else {
+              dateSummaryText += t('batch.backfillDate', {
+                records: formatNumber(dateResult.billingRecordsGenerated),
+                pageViews: formatNumber(dateResult.totalPageViews),
+                amount: formatMoney(dateResult.totalAmount),
+                success: successfulCharges,
+                failed: failedCharges,
+              }) + '\n';
+            }
+          });
+
+          blocks.push({
+            type: 'section',
+            text: {
+              type: 'mrkdwn',
+              text: `*${t('batch.label.dateResults')}:*\n${dateSummaryText.trim()}`
+            }
+          });
+        }
+      }
+
       if (scheduled !== undefined) {
         blocks.splice(-1, 0, {
           type: 'section',
           text: {
             type: 'mrkdwn',
-            text: `*実行タイプ:*\n${scheduled ? 'スケジュール実行' : '手動実行'}`
+            text: `*${t('batch.label.runType')}:*\n${scheduled ? t('batch.runType.scheduled') : t('batch.runType.manual')}`
           }
         });
       }
@@ -274,7 +620,7 @@ export class SlackService {
           type: 'section',
           text: {
             type: 'mrkdwn',
-            text: `*テスト対象日:*\n${testDate}`
+            text: `*${t('batch.label.testDate')}:*\n${testDate}`
           }
         });
       }
@@ -284,16 +630,27 @@ export class SlackService {
           type: 'section',
           text: {
             type: 'mrkdwn',
-            text: `*エラー詳細:*\n\`\`\`${error}\`\`\``
+            text: `*${t('batch.label.error')}:*\n\`\`\`${error}\`\`\``
           }
         });
       }
 
-      await this.client.chat.postMessage({
+      // Long reports continue in follow-up messages instead of being rejected by Slack
+      const [firstBlocks, ...continuedBlocks] = splitBlocksIntoMessages(blocks);
+      const text = success ? t('batch.text.success') : t('batch.text.failure');
+      const { ts: threadTs } = await this.client.chat.postMessage({
         channel: this.channelId,
-        blocks,
-        text: success ? 'バッチ処理が完了しました' : 'バッチ処理でエラーが発生しました'
+        blocks: firstBlocks,
+        text
       });
+      for (const messageBlocks of continuedBlocks) {
+        await this.client.chat.postMessage({ channel: this.channelId, blocks: messageBlocks, text: t('batch.text.continued', { text }) });
+      }
+
+      const shopResults = billingDetails?.shopResults || [];
+      if (threadTs && shopResults.length > 0) {
+        await this.sendShopResultsThread(threadTs, billingDetails?.targetDate ?? '', shopResults);
+      }
 
       console.log('Slack notification sent successfully');
     } catch (slackError) {
@@ -302,13 +659,406 @@ export class SlackService {
     }
   }
 
-  private getShopifyStatusText(status: 'pending' | 'success' | 'failed' | 'skipped'): string {
+  /**
+   * Threaded under the report: failures grouped by error type first, then every shop result as CSV.
+   */
+  private async sendShopResultsThread(threadTs: string, targetDate: string, shopResults: ShopBillingResult[]): Promise<void> {
+    const failureBlocks = this.buildFailureBlocks(shopResults);
+    for (const messageBlocks of failureBlocks.length > 0 ? splitBlocksIntoMessages(failureBlocks) : []) {
+      await this.client.chat.postMessage({
+        channel: this.channelId,
+        thread_ts: threadTs,
+        blocks: messageBlocks,
+        text: this.i18n.t('batch.failureBreakdown')
+      });
+    }
+
+    try {
+      await this.client.files.uploadV2({
+        channel_id: this.channelId,
+        thread_ts: threadTs,
+        filename: `billing-results-${targetDate}.csv`,
+        title: this.i18n.t('batch.resultsCsvTitle', { date: targetDate, count: shopResults.length }),
+        content: formatShopResultsCsv(shopResults)
+      });
+    } catch (uploadError) {
+      // Needs the files:write scope; the report itself has already been posted
+      console.error('Failed to upload shop results CSV to Slack:', uploadError);
+    }
+  }
+
+  private buildFailureBlocks(shopResults: ShopBillingResult[]): SlackBlock[] {
+    const { t, formatMoney } = this.formatters();
+    const groups = new Map<string, ShopBillingResult[]>();
+    shopResults.forEach(shop => {
+      const group = !shop.bigQuerySaved && shop.bigQueryError ? t('batch.bigQueryFailureGroup') :
+        shop.shopifyStatus === 'failed' ? this.getErrorCategoryText(shop.errorCategory || 'unknown') : null;
+      if (group) {
+        groups.set(group, [...(groups.get(group) || []), shop]);
+      }
+    });
+
+    return Array.from(groups).map(([group, shops]) => ({
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `${t('batch.failureGroup', { group, count: shops.length })}\n` + shops.map(shop =>
+          `• *${shop.shop}* ${formatMoney(shop.billingAmount)}: ${shop.shopifyError || shop.bigQueryError || t('common.unknown')}`
+        ).join('\n')
+      }
+    }));
+  }
+
+  /**
+   * Posts one interactive message per charge awaiting approval, with Approve / Adjust / Reject buttons
+   * handled by the slackInteractions function.
+   */
+  async sendApprovalRequests(records: BillingRecord[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+    if (this.isDummyToken) {
+      console.log(`Slack notification skipped (dummy token): ${records.length} approval requests`);
+      return;
+    }
+
+    const { t, formatNumber, formatMoney } = this.formatters();
+    for (const record of records) {
+      const value = JSON.stringify({ shop: record.shop, billing_date: record.billing_date });
+      const amount = formatMoney(record.billing_amount);
+      try {
+        await this.client.chat.postMessage({
+          channel: this.channelId,
+          text: t('approval.text', { shop: record.shop, amount }),
+          blocks: [
+            {
+              type: 'section',
+              text: {
+                type: 'mrkdwn',
+                text: `${t('approval.title')}\n*${record.shop}* (${record.billing_date})\n` +
+                  `${t('approval.amount', { amount, threshold: formatMoney(Number(record.approval_threshold ?? 0)) })}\n` +
+                  t('approval.pageViews', { pageViews: formatNumber(record.page_views) })
+              }
+            },
+            {
+              type: 'actions',
+              elements: [
+                {
+                  type: 'button',
+                  action_id: APPROVE_ACTION_ID,
+                  style: 'primary',
+                  text: { type: 'plain_text', text: t('approval.approve') },
+                  value,
+                  confirm: {
+                    title: { type: 'plain_text', text: t('approval.approveConfirmTitle') },
+                    text: { type: 'mrkdwn', text: t('approval.approveConfirmText', { shop: record.shop, amount }) },
+                    confirm: { type: 'plain_text', text: t('approval.charge') },
+                    deny: { type: 'plain_text', text: t('common.cancel') }
+                  }
+                },
+                {
+                  type: 'button',
+                  action_id: ADJUST_ACTION_ID,
+                  text: { type: 'plain_text', text: t('approval.adjust') },
+                  value
+                },
+                {
+                  type: 'button',
+                  action_id: REJECT_ACTION_ID,
+                  style: 'danger',
+                  text: { type: 'plain_text', text: t('approval.reject') },
+                  value,
+                  confirm: {
+                    title: { type: 'plain_text', text: t('approval.rejectConfirmTitle') },
+                    text: { type: 'mrkdwn', text: t('approval.rejectConfirmText', { shop: record.shop, date: record.billing_date }) },
+                    confirm: { type: 'plain_text', text: t('approval.rejectConfirm') },
+                    deny: { type: 'plain_text', text: t('common.cancel') }
+                  }
+                }
+              ]
+            }
+          ]
+        });
+      } catch (slackError) {
+        console.error(`Failed to send approval request for ${record.shop}:`, slackError);
+      }
+    }
+  }
+
+  /**
+   * Opens the modal that asks for the adjusted USD amount.
+   */
+  async openAdjustChargeModal(triggerId: string, request: ApprovalMessageRef): Promise<void> {
+    const { t } = this.formatters();
+    await this.client.views.open({
+      trigger_id: triggerId,
+      view: {
+        type: 'modal',
+        callback_id: ADJUST_MODAL_CALLBACK_ID,
+        private_metadata: JSON.stringify(request),
+        title: { type: 'plain_text', text: t('approval.adjustTitle') },
+        submit: { type: 'plain_text', text: t('approval.charge') },
+        close: { type: 'plain_text', text: t('common.cancel') },
+        blocks: [
+          {
+            type: 'input',
+            block_id: ADJUST_AMOUNT_BLOCK_ID,
+            label: { type: 'plain_text', text: t('approval.adjustLabel', { shop: request.shop, date: request.billing_date }) },
+            element: {
+              type: 'plain_text_input',
+              action_id: ADJUST_AMOUNT_ACTION_ID,
+              placeholder: { type: 'plain_text', text: t('approval.adjustPlaceholder') }
+            }
+          }
+        ]
+      }
+    });
+  }
+
+  /**
+   * Replaces the buttons right away while approvalWorker charges: through the interaction's
+   * response_url when Slack sent one (button clicks), otherwise with chat.update (modal submissions).
+   */
+  async showApprovalProcessing(request: ApprovalMessageRef, decidedBy: string, responseUrl?: string): Promise<void> {
+    if (this.isDummyToken) {
+      return;
+    }
+
+    const message = this.buildApprovalOutcomeMessage(request, decidedBy, this.i18n.t('approval.processing'));
+    try {
+      if (responseUrl) {
+        await axios.post(responseUrl, { replace_original: true, ...message }, {
+          headers: { 'Content-Type': 'application/json' },
+          timeout: parseInt(process.env.API_TIMEOUT_SECONDS || '30') * 1000,
+        });
+      } else if (request.channel && request.ts) {
+        await this.client.chat.update({ channel: request.channel, ts: request.ts, ...message });
+      }
+    } catch (slackError) {
+      console.error('Failed to mark approval message as processing:', slackError);
+    }
+  }
+
+  /**
+   * Replaces the buttons on an approval message with the decision and the charge outcome.
+   */
+  async updateApprovalMessage(request: ApprovalMessageRef, decidedBy: string, result: DailyBillingResult): Promise<void> {
+    if (this.isDummyToken || !request.channel || !request.ts) {
+      return;
+    }
+
+    const { t, formatMoney } = this.formatters();
+    const shopResult = result.shopResults?.[0];
+    const outcome = result.errorDetails
+      ? `🔴 ${result.errorDetails.message}`
+      : result.skipped
+      ? `⏭️ ${result.skipReason}`
+      : `${shopResult ? this.getShopifyStatusText(shopResult.shopifyStatus) : t('common.unknown')} (${formatMoney(result.totalAmount)})` +
+        (shopResult?.shopifyError ? `\n🔴 ${shopResult.shopifyError}` : '');
+
+    try {
+      await this.client.chat.update({
+        channel: request.channel,
+        ts: request.ts,
+        ...this.buildApprovalOutcomeMessage(request, decidedBy, outcome)
+      });
+    } catch (slackError) {
+      console.error('Failed to update approval message:', slackError);
+    }
+  }
+
+  private buildApprovalOutcomeMessage(request: ApprovalMessageRef, decidedBy: string, outcome: string): { text: string; blocks: KnownBlock[] } {
+    const { t } = this.formatters();
+    return {
+      text: t('approval.updatedText', { shop: request.shop }),
+      blocks: [
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: `*${request.shop}* (${request.billing_date})\n${outcome}`
+          }
+        },
+        {
+          type: 'context',
+          elements: [{ type: 'mrkdwn', text: t('approval.decidedBy', { user: decidedBy }) }]
+        }
+      ]
+    };
+  }
+
+  async sendReconciliationResult(result: ReconciliationResult): Promise<void> {
+    if (this.isDummyToken) {
+      console.log('Slack notification skipped (dummy token): reconciliation', result.runId);
+      return;
+    }
+
+    try {
+      const { t, formatMoney } = this.formatters();
+      const clean = result.success && result.findings.length === 0;
+      const findingTypes: ReconciliationFindingType[] = ['missing_in_shopify', 'missing_in_bigquery', 'amount_mismatch'];
+      const counts = findingTypes
+        .map(type => t('reconciliation.findingCount', {
+          type: this.getFindingTypeText(type),
+          count: result.findings.filter(f => f.finding_type === type).length,
+        }))
+        .join('\n');
+
+      const blocks: KnownBlock[] = [
+        {
+          type: 'header',
+          text: {
+            type: 'plain_text',
+            text: clean ? t('reconciliation.header.clean') : t('reconciliation.header.findings')
+          }
+        },
+        {
+          type: 'section',
+          fields: [
+            { type: 'mrkdwn', text: `*${t('reconciliation.label.period')}:*\n${t('common.range', { start: result.startDate, end: result.endDate })}` },
+            { type: 'mrkdwn', text: `*${t('reconciliation.label.shopsChecked')}:*\n${result.shopsChecked}` },
+            { type: 'mrkdwn', text: `*${t('reconciliation.label.recordsCompared')}:*\n${result.recordsCompared}` },
+            { type: 'mrkdwn', text: `*${t('reconciliation.label.findings')}:*\n${counts}` }
+          ]
+        }
+      ];
+
+      if (result.findings.length > 0) {
+        const lines = result.findings.slice(0, 10).map(finding => {
+          const amounts = [
+            finding.expected_amount !== undefined ? t('reconciliation.recorded', { amount: formatMoney(finding.expected_amount, finding.currency_code) }) : null,
+            finding.actual_amount !== undefined ? t('reconciliation.shopify', { amount: formatMoney(finding.actual_amount, finding.currency_code) }) : null,
+          ].filter(Boolean).join(' / ');
+          return `• ${finding.shop} ${finding.billing_date ?? t('reconciliation.unknownDate')} - ${this.getFindingTypeText(finding.finding_type)}` +
+            (amounts ? ` (${amounts})` : '') +
+            (finding.shopify_charge_id ? `\n  \`${finding.shopify_charge_id}\`` : '');
+        });
+        if (result.findings.length > 10) {
+          lines.push(t('reconciliation.more', { count: result.findings.length - 10 }));
+        }
+
+        blocks.push({
+          type: 'section',
+          text: { type: 'mrkdwn', text: `*${t('reconciliation.label.details')}:*\n${lines.join('\n')}` }
+        });
+      }
+
+      if (result.shopErrors.length > 0) {
+        blocks.push({
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: `*${t('reconciliation.label.shopErrors')}:*\n${result.shopErrors.slice(0, 10).map(e => `• ${e.shop}: ${e.error}`).join('\n')}`
+          }
+        });
+      }
+
+      blocks.push({
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: t('reconciliation.runId', { runId: result.runId }) }]
+      });
+
+      await this.client.chat.postMessage({
+        channel: this.channelId,
+        blocks,
+        text: clean ? t('reconciliation.text.clean') : t('reconciliation.text.findings')
+      });
+
+      console.log('Slack reconciliation notification sent successfully');
+    } catch (slackError) {
+      console.error('Failed to send Slack notification:', slackError);
+    }
+  }
+
+  async sendShopFailureDigest(digest: ShopFailureDigest): Promise<void> {
+    if (this.isDummyToken) {
+      console.log('Slack notification skipped (dummy token): shop failure digest', digest.targetDate);
+      return;
+    }
+
+    try {
+      const { t, formatMoney } = this.formatters();
+      const blocks: SlackBlock[] = [
+        {
+          type: 'header',
+          text: { type: 'plain_text', text: t('digest.header', { date: digest.targetDate, count: digest.shops.length }) }
+        },
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: digest.shops.map(entry =>
+              `• *${entry.shop}* ${formatMoney(entry.billingAmount)} [${this.getErrorCategoryText(entry.errorCategory)}]: ${entry.error}`
+            ).join('\n')
+          }
+        }
+      ];
+
+      for (const messageBlocks of splitBlocksIntoMessages(blocks)) {
+        await this.client.chat.postMessage({
+          channel: this.channelId,
+          blocks: messageBlocks,
+          text: t('digest.text', { date: digest.targetDate })
+        });
+      }
+
+      console.log('Slack shop failure digest sent successfully');
+    } catch (slackError) {
+      console.error('Failed to send Slack notification:', slackError);
+    }
+  }
+
+  // Bound so report builders can destructure them
+  private formatters() {
+    return {
+      t: this.i18n.t.bind(this.i18n),
+      formatNumber: this.i18n.formatNumber.bind(this.i18n),
+      formatMoney: this.i18n.formatMoney.bind(this.i18n),
+    };
+  }
+
+  private getShopifyStatusText(status: ShopBillingResult['shopifyStatus']): string {
     switch (status) {
-      case 'success': return '請求成功';
-      case 'failed': return '請求失敗';
-      case 'skipped': return '請求スキップ';
-      case 'pending': return '請求待機';
-      default: return '不明';
+      case 'success': return this.i18n.t('shopifyStatus.success');
+      case 'failed': return this.i18n.t('shopifyStatus.failed');
+      case 'skipped': return this.i18n.t('shopifyStatus.skipped');
+      case 'already_charged': return this.i18n.t('shopifyStatus.already_charged');
+      case 'capped': return this.i18n.t('shopifyStatus.capped');
+      case 'pending': return this.i18n.t('shopifyStatus.pending');
+      case 'held': return this.i18n.t('shopifyStatus.held');
+      case 'awaiting_approval': return this.i18n.t('shopifyStatus.awaiting_approval');
+      case 'rejected': return this.i18n.t('shopifyStatus.rejected');
+      default: return this.i18n.t('common.unknown');
+    }
+  }
+
+  private getShopStatusText(status: ShopStatus): string {
+    switch (status) {
+      case 'active': return this.i18n.t('shopStatus.active');
+      case 'uninstalled': return this.i18n.t('shopStatus.uninstalled');
+      case 'frozen': return this.i18n.t('shopStatus.frozen');
+      case 'closed': return this.i18n.t('shopStatus.closed');
+      default: return this.i18n.t('common.unknown');
+    }
+  }
+
+  private getFindingTypeText(type: ReconciliationFindingType): string {
+    switch (type) {
+      case 'missing_in_shopify': return this.i18n.t('findingType.missing_in_shopify');
+      case 'missing_in_bigquery': return this.i18n.t('findingType.missing_in_bigquery');
+      case 'amount_mismatch': return this.i18n.t('findingType.amount_mismatch');
+      default: return this.i18n.t('common.unknown');
+    }
+  }
+
+  private getErrorCategoryText(category: ChargeErrorCategory): string {
+    switch (category) {
+      case 'transient': return this.i18n.t('errorCategory.transient');
+      case 'auth': return this.i18n.t('errorCategory.auth');
+      case 'subscription_missing': return this.i18n.t('errorCategory.subscription_missing');
+      case 'cap_exceeded': return this.i18n.t('errorCategory.cap_exceeded');
+      case 'validation': return this.i18n.t('errorCategory.validation');
+      default: return this.i18n.t('errorCategory.unknown');
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// action_id / callback_id values on the approval message and the adjust modal
+export const APPROVE_ACTION_ID = 'approve_charge';
+export const REJECT_ACTION_ID = 'reject_charge';
+export const ADJUST_ACTION_ID = 'adjust_charge';
+export const ADJUST_MODAL_CALLBACK_ID = 'adjust_charge_modal';
+export const ADJUST_AMOUNT_BLOCK_ID = 'amount';
+export const ADJUST_AMOUNT_ACTION_ID = 'amount_input';
+
+// Slack rejects replays older than this; so do we
+const MAX_REQUEST_AGE_MS = 5 * 60 * 1000;
+
+export interface ApprovalRequestRef {
+  shop: string;
+  billing_date: string;
+}
+
+// Where the approval message lives, so it can be updated with the decision
+export interface ApprovalMessageRef extends ApprovalRequestRef {
+  channel?: string;
+  ts?: string;
+}
+
+// The parts of Slack's interaction payloads this app reads
+export interface SlackInteractionPayload {
+  type?: string;
+  trigger_id?: string;
+  user?: { id: string; username?: string; name?: string };
+  actions?: Array<{ action_id: string; value?: string }>;
+  channel?: { id: string };
+  message?: { ts: string };
+  container?: { channel_id?: string; message_ts?: string };
+  response_url?: string;
+  view?: {
+    callback_id?: string;
+    private_metadata?: string;
+    state?: { values?: Record<string, Record<string, { value?: string | null }>> };
+  };
+}
+
+// A decision taken in Slack, published to the approval decisions topic and carried out by approvalWorker
+export interface ApprovalDecision {
+  request: ApprovalMessageRef;
+  // USD amount to charge: undefined charges the amount as computed, 0 rejects the charge
+  amount?: number;
+  user: string;
+}
+
+export type SlackInteraction =
+  | { type: 'decision'; decision: 'approve' | 'reject'; request: ApprovalMessageRef; user: string; responseUrl?: string }
+  | { type: 'adjust_requested'; request: ApprovalMessageRef; triggerId: string }
+  | { type: 'adjust_submitted'; request: ApprovalMessageRef; amount: number; user: string };
+
+/**
+ * Verifies Slack's request signature: `v0=` + HMAC-SHA256 of `v0:{timestamp}:{raw body}`.
+ */
+export function verifySlackSignature(
+  signingSecret: string,
+  timestamp: string | undefined,
+  rawBody: string,
+  signature: string | undefined,
+  now: number = Date.now()
+): boolean {
+  if (!timestamp || !signature || Math.abs(now - Number(timestamp) * 1000) > MAX_REQUEST_AGE_MS) {
+    return false;
+  }
+
+  const expected = 'v0=' + createHmac('sha256', signingSecret).update(`v0:${timestamp}:${rawBody}`).digest('hex');
+  return expected.length === signature.length && timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+}
+
+/**
+ * Extracts the approval decision from a block_actions or view_submission payload.
+ * Returns null for interactions this app does not handle.
+ */
+export function parseInteraction(payload: SlackInteractionPayload): SlackInteraction | null {
+  const user = payload?.user ? `${payload.user.username ?? payload.user.name ?? payload.user.id} (${payload.user.id})` : 'unknown';
+
+  if (payload?.type === 'block_actions') {
+    const action = payload.actions?.[0];
+    if (!action?.value) {
+      return null;
+    }
+    const request: ApprovalMessageRef = {
+      ...(JSON.parse(action.value) as ApprovalRequestRef),
+      channel: payload.channel?.id ?? payload.container?.channel_id,
+      ts: payload.message?.ts ?? payload.container?.message_ts,
+    };
+
+    switch (action.action_id) {
+      case APPROVE_ACTION_ID: return { type: 'decision', decision: 'approve', request, user, responseUrl: payload.response_url };
+      case REJECT_ACTION_ID: return { type: 'decision', decision: 'reject', request, user, responseUrl: payload.response_url };
+      case ADJUST_ACTION_ID: return { type: 'adjust_requested', request, triggerId: payload.trigger_id as string };
+      default: return null;
+    }
+  }
+
+  if (payload?.type === 'view_submission' && payload.view?.callback_id === ADJUST_MODAL_CALLBACK_ID) {
+    const value = payload.view.state?.values?.[ADJUST_AMOUNT_BLOCK_ID]?.[ADJUST_AMOUNT_ACTION_ID]?.value;
+    return {
+      type: 'adjust_submitted',
+      request: JSON.parse(payload.view.private_metadata ?? '{}') as ApprovalMessageRef,
+      amount: value === undefined || value === null || String(value).trim() === '' ? NaN : Number(value),
+      user,
+    };
+  }
+
+  return null;
+}
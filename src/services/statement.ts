@@ -0,0 +1,118 @@
+import dayjs from 'dayjs';
+import { BigQueryService } from './bigquery';
+import { DEFAULT_PRICING_PLAN } from './pricing';
+import { roundToCurrency } from './shopifyBilling';
+import { toCsv } from '../utils/csv';
+import { BillingRecord, PricingPlan, StatementLine, UsageStatement } from '../types/billing';
+
+const CSV_COLUMNS: Array<keyof StatementLine> = [
+  'billing_date',
+  'page_views',
+  'pricing_plan_id',
+  'pricing_tier',
+  'rate_per_million',
+  'raw_amount',
+  'carry_over_consumed',
+  'billing_amount',
+  'charged_amount',
+  'currency_code',
+  'shopify_charge_id',
+  'shopify_billing_status',
+];
+
+/**
+ * Builds a shop's monthly statement from its current usage_records rows (one per billing date).
+ */
+export function buildStatement(
+  shop: string,
+  month: string,
+  records: BillingRecord[],
+  plans: PricingPlan[],
+  generatedAt: string = new Date().toISOString()
+): UsageStatement {
+  const plansById = new Map(plans.map(plan => [plan.plan_id, plan]));
+  plansById.set(DEFAULT_PRICING_PLAN.plan_id, plansById.get(DEFAULT_PRICING_PLAN.plan_id) ?? DEFAULT_PRICING_PLAN);
+
+  const lines: StatementLine[] = [...records]
+    .sort((a, b) => a.billing_date.localeCompare(b.billing_date))
+    .map(record => {
+      const charged = record.shopify_billing_status === 'success' || record.shopify_billing_status === 'capped';
+      const tier = plansById.get(record.pricing_plan_id)?.tiers[record.pricing_tier ?? 0];
+
+      return {
+        billing_date: record.billing_date,
+        page_views: record.page_views,
+        pricing_plan_id: record.pricing_plan_id,
+        pricing_tier: record.pricing_tier ?? 0,
+        // Plans deleted since billing fall back to the day's effective rate
+        rate_per_million: tier?.rate_per_million ??
+          (record.page_views > 0 ? (record.raw_amount / record.page_views) * 1_000_000 : 0),
+        raw_amount: record.raw_amount,
+        carry_over_consumed: record.carry_over_consumed ?? 0,
+        billing_amount: record.billing_amount,
+        charged_amount: charged ? record.shopify_charged_amount ?? record.billing_amount : 0,
+        currency_code: record.shopify_currency_code || 'USD',
+        shopify_charge_id: record.shopify_charge_id,
+        shopify_billing_status: record.shopify_billing_status,
+      };
+    });
+
+  // A shop's billing currency can change mid-month; the total covers the latest one
+  const currencyCode = [...lines].reverse().find(line => line.charged_amount > 0)?.currency_code ?? 'USD';
+
+  return {
+    shop,
+    month,
+    lines,
+    total_page_views: lines.reduce((sum, line) => sum + line.page_views, 0),
+    total_billing_amount: roundToCurrency(lines.reduce((sum, line) => sum + line.billing_amount, 0), 'USD'),
+    total_charged_amount: roundToCurrency(
+      lines.filter(line => line.currency_code === currencyCode).reduce((sum, line) => sum + line.charged_amount, 0),
+      currencyCode
+    ),
+    currency_code: currencyCode,
+    generated_at: generatedAt,
+  };
+}
+
+/**
+ * One row per billing date followed by a total row.
+ */
+export function formatStatementCsv(statement: UsageStatement): string {
+  return toCsv([
+    CSV_COLUMNS,
+    ...statement.lines.map(line => CSV_COLUMNS.map(column => line[column])),
+    CSV_COLUMNS.map(column => {
+      switch (column) {
+        case 'billing_date': return 'total';
+        case 'page_views': return statement.total_page_views;
+        case 'billing_amount': return statement.total_billing_amount;
+        case 'charged_amount': return statement.total_charged_amount;
+        case 'currency_code': return statement.currency_code;
+        default: return '';
+      }
+    }),
+  ]);
+}
+
+export class StatementService {
+  private bigQueryService: BigQueryService;
+
+  constructor() {
+    this.bigQueryService = new BigQueryService();
+  }
+
+  /**
+   * Statement for one shop and calendar month (YYYY-MM), from billing.usage_records_current.
+   */
+  async generateStatement(shop: string, month: string): Promise<UsageStatement> {
+    const startDate = dayjs(`${month}-01`).format('YYYY-MM-DD');
+    const endDate = dayjs(startDate).endOf('month').format('YYYY-MM-DD');
+
+    const records = await this.bigQueryService.getCurrentBillingRecords(startDate, endDate, shop);
+    const planIds = Array.from(new Set(records.map(record => record.pricing_plan_id).filter(Boolean)));
+    const plans = await this.bigQueryService.getPricingPlans(planIds);
+
+    return buildStatement(shop, month, records, plans);
+  }
+}
@@ -0,0 +1,27 @@
+import axios from 'axios';
+import { Notification } from '../types/billing';
+import { Notifier } from './notifier';
+
+/**
+ * Posts each notification as JSON (`{ kind, result | digest, sentAt }`) to a generic webhook.
+ */
+export class WebhookNotifier implements Notifier {
+  readonly target: string;
+  private url: string;
+
+  constructor(url: string) {
+    this.url = url;
+    this.target = `webhook:${url}`;
+  }
+
+  async send(notification: Notification): Promise<void> {
+    await axios.post(
+      this.url,
+      { ...notification, sentAt: new Date().toISOString() },
+      {
+        headers: { 'Content-Type': 'application/json' },
+        timeout: parseInt(process.env.API_TIMEOUT_SECONDS || '30') * 1000,
+      }
+    );
+  }
+}
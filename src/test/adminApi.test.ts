@@ -0,0 +1,85 @@
+const mockGetBatchRuns = jest.fn();
+const mockGetShopBillingHistory = jest.fn();
+const mockGetCurrentBillingRecords = jest.fn();
+const mockGetBillingDateSummaries = jest.fn();
+
+jest.mock('../services/bigquery', () => ({
+  BigQueryService: jest.fn().mockImplementation(() => ({
+    getBatchRuns: mockGetBatchRuns,
+    getShopBillingHistory: mockGetShopBillingHistory,
+    getCurrentBillingRecords: mockGetCurrentBillingRecords,
+    getBillingDateSummaries: mockGetBillingDateSummaries,
+  })),
+}));
+
+import { AdminApiService } from '../services/adminApi';
+
+describe('AdminApiService', () => {
+  const auth = 'Bearer secret-token';
+  let service: AdminApiService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.ADMIN_API_TOKEN = 'secret-token';
+    service = new AdminApiService();
+  });
+
+  afterAll(() => {
+    delete process.env.ADMIN_API_TOKEN;
+  });
+
+  it('should reject requests without the bearer token', async () => {
+    expect((await service.handle('GET', '/runs', undefined, {})).status).toBe(401);
+    expect((await service.handle('GET', '/runs', 'Bearer wrong', {})).status).toBe(401);
+    expect(mockGetBatchRuns).not.toHaveBeenCalled();
+  });
+
+  it('should be disabled when no token is configured', async () => {
+    delete process.env.ADMIN_API_TOKEN;
+    service = new AdminApiService();
+
+    expect((await service.handle('GET', '/runs', 'Bearer ', {})).status).toBe(503);
+  });
+
+  it('should only serve GET on known routes', async () => {
+    expect((await service.handle('POST', '/runs', auth, {})).status).toBe(405);
+    expect((await service.handle('GET', '/unknown', auth, {})).status).toBe(404);
+  });
+
+  it('should list runs for the requested range', async () => {
+    mockGetBatchRuns.mockResolvedValue([]);
+
+    const response = await service.handle('GET', '/runs', auth, { startDate: '2024-01-01', endDate: '2024-01-31', limit: '10' });
+
+    expect(response.status).toBe(200);
+    expect(mockGetBatchRuns).toHaveBeenCalledWith('2024-01-01', '2024-01-31', 10);
+  });
+
+  it('should validate dates before querying', async () => {
+    expect((await service.handle('GET', '/runs', auth, { startDate: '2024-01-31', endDate: '2024-01-01' })).status).toBe(400);
+    expect((await service.handle('GET', '/dates/2024-02-30', auth, {})).status).toBe(400);
+    expect(mockGetBatchRuns).not.toHaveBeenCalled();
+    expect(mockGetBillingDateSummaries).not.toHaveBeenCalled();
+  });
+
+  it('should page through a shop history', async () => {
+    mockGetShopBillingHistory.mockResolvedValue([{ billing_date: '2024-01-03' }, { billing_date: '2024-01-02' }, { billing_date: '2024-01-01' }]);
+
+    const response = await service.handle('GET', '/shops/shop-a/history', auth, { limit: '2', offset: '4' });
+
+    expect(mockGetShopBillingHistory).toHaveBeenCalledWith('shop-a.myshopify.com', 3, 4);
+    expect(response.body).toMatchObject({ shop: 'shop-a.myshopify.com', nextOffset: 6 });
+    expect(response.body.records).toHaveLength(2);
+  });
+
+  it('should return only failed charges', async () => {
+    mockGetCurrentBillingRecords.mockResolvedValue([
+      { shop: 'a', shopify_billing_status: 'success' },
+      { shop: 'b', shopify_billing_status: 'failed' },
+    ]);
+
+    const response = await service.handle('GET', '/failed-charges', auth, { startDate: '2024-01-01', endDate: '2024-01-02' });
+
+    expect(response.body.failedCharges).toEqual([{ shop: 'b', shopify_billing_status: 'failed' }]);
+  });
+});
@@ -0,0 +1,44 @@
+import { detectAnomaly, median } from '../services/anomalyDetection';
+import { AnomalyConfig } from '../types/billing';
+
+describe('anomaly detection', () => {
+  const config: AnomalyConfig = {
+    multiplier: 5,
+    absoluteThreshold: 0,
+    minBaselineDays: 7,
+    minPageViews: 10_000,
+  };
+  const steadyHistory = [20_000, 21_000, 19_000, 22_000, 20_000, 18_000, 20_500, 19_500];
+
+  it('should compute the median of odd and even length histories', () => {
+    expect(median([3, 1, 2])).toBe(2);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+    expect(median([])).toBeNull();
+  });
+
+  it('should not flag days within the multiplier of the baseline', () => {
+    expect(detectAnomaly(90_000, steadyHistory, config)).toBeNull();
+  });
+
+  it('should flag days above the multiplier of the trailing median', () => {
+    const anomaly = detectAnomaly(150_000, steadyHistory, config);
+
+    expect(anomaly).toMatchObject({ baseline: 20_000 });
+    expect(anomaly?.reason).toContain('5x the 8-day median');
+  });
+
+  it('should not use a baseline built from too few days', () => {
+    expect(detectAnomaly(150_000, [1_000, 1_000], config)).toBeNull();
+  });
+
+  it('should not flag small shops below the minimum page views', () => {
+    expect(detectAnomaly(9_000, [100, 100, 100, 100, 100, 100, 100], config)).toBeNull();
+  });
+
+  it('should flag days above the absolute threshold even without history', () => {
+    const anomaly = detectAnomaly(2_000_000, [], { ...config, absoluteThreshold: 1_000_000 });
+
+    expect(anomaly).toMatchObject({ baseline: null });
+    expect(anomaly?.reason).toContain('absolute threshold');
+  });
+});
@@ -0,0 +1,131 @@
+const mockClaimBatchRun = jest.fn();
+const mockRefuseBatchRun = jest.fn();
+const mockFinishBatchRun = jest.fn();
+
+jest.mock('../services/bigquery', () => ({
+  BigQueryService: jest.fn().mockImplementation(() => ({
+    claimBatchRun: mockClaimBatchRun,
+    refuseBatchRun: mockRefuseBatchRun,
+    finishBatchRun: mockFinishBatchRun,
+  })),
+}));
+
+import { BatchRunService } from '../services/batchRun';
+import { BigQueryService } from '../services/bigquery';
+import { BatchRun, DailyBillingResult } from '../types/billing';
+
+describe('BatchRunService', () => {
+  let service: BatchRunService;
+
+  const runningRow = (overrides: Partial<BatchRun>): BatchRun => ({
+    run_id: 'run-1',
+    trigger_type: 'scheduled',
+    billing_date: '2024-01-01',
+    status: 'running',
+    started_at: '2024-01-02T01:00:00.000Z',
+    lease_expires_at: '2024-01-02T01:30:00.000Z',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    service = new BatchRunService(new BigQueryService(), 45);
+  });
+
+  it('should acquire the lock when its own row is the earliest running one', async () => {
+    mockClaimBatchRun.mockImplementation(async (runId: string) => [runningRow({ run_id: runId })]);
+
+    const claim = await service.start('2024-01-01', 'manual');
+
+    expect(claim.acquired).toBe(true);
+    expect(mockClaimBatchRun).toHaveBeenCalledWith(claim.run.run_id, 'manual', '2024-01-01', 45);
+    expect(mockRefuseBatchRun).not.toHaveBeenCalled();
+  });
+
+  it('should refuse and record the run while another run holds the lease', async () => {
+    mockClaimBatchRun.mockImplementation(async (runId: string) => [
+      runningRow({ run_id: 'run-1' }),
+      runningRow({ run_id: runId, started_at: '2024-01-02T01:00:00.100Z' }),
+    ]);
+
+    const claim = await service.start('2024-01-01', 'manual');
+
+    expect(claim).toMatchObject({ acquired: false, heldBy: { run_id: 'run-1' } });
+    // Its own running row from the claim becomes the refused row
+    expect(mockRefuseBatchRun).toHaveBeenCalledWith(expect.objectContaining({
+      run_id: claim.run.run_id,
+      status: 'refused',
+      billing_date: '2024-01-01',
+      message: expect.stringContaining('run-1'),
+    }));
+  });
+
+  it('should store counts and totals when the run finishes', async () => {
+    const result: DailyBillingResult = {
+      success: true,
+      targetDate: '2024-01-01',
+      skipped: false,
+      activeSessions: 3,
+      shopsWithPageViews: 3,
+      billingRecordsGenerated: 3,
+      totalPageViews: 3000,
+      totalAmount: 1.5,
+      shopResults: (['success', 'success', 'failed'] as const).map((shopifyStatus, index) => ({
+        shop: `shop-${index}`,
+        pageViews: 1000,
+        billingAmount: 0.5,
+        bigQuerySaved: true,
+        shopifyStatus,
+      })),
+    };
+
+    await service.finish(runningRow({}), result);
+
+    expect(mockFinishBatchRun).toHaveBeenCalledWith(expect.objectContaining({
+      run_id: 'run-1',
+      status: 'succeeded',
+      billing_records: 3,
+      success_count: 2,
+      failed_count: 1,
+      total_page_views: 3000,
+      total_amount: 1.5,
+    }));
+  });
+
+  it('should finish a fanned-out run only while it is still running', async () => {
+    const result: DailyBillingResult = {
+      success: true,
+      targetDate: '2024-01-01',
+      skipped: false,
+      activeSessions: 2,
+      shopsWithPageViews: 2,
+      billingRecordsGenerated: 2,
+      totalPageViews: 2000,
+      totalAmount: 1,
+      dispatchedJobs: 2,
+    };
+    mockFinishBatchRun.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+    expect(await service.finishDispatched('run-1', result)).toBe(true);
+    expect(mockFinishBatchRun).toHaveBeenCalledWith(expect.objectContaining({ run_id: 'run-1', status: 'succeeded', dispatched_jobs: 2 }), true);
+    expect(await service.finishDispatched('run-1', result)).toBe(false);
+  });
+
+  it('should not throw when the final update fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    mockFinishBatchRun.mockRejectedValue(new Error('quota exceeded'));
+
+    await expect(service.finish(runningRow({}), {
+      success: false,
+      targetDate: '2024-01-01',
+      skipped: false,
+      activeSessions: 0,
+      shopsWithPageViews: 0,
+      billingRecordsGenerated: 0,
+      totalPageViews: 0,
+      totalAmount: 0,
+    })).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,145 @@
+const mockQuery = jest.fn();
+const mockExists = jest.fn();
+
+jest.mock('@google-cloud/bigquery', () => ({
+  BigQuery: jest.fn().mockImplementation(() => ({
+    query: mockQuery,
+    dataset: () => ({
+      get: jest.fn().mockResolvedValue([{}]),
+      table: () => ({
+        exists: mockExists,
+        get: jest.fn().mockResolvedValue([{}]),
+        getMetadata: jest.fn().mockResolvedValue([{ schema: { fields: [] } }]),
+        setMetadata: jest.fn().mockResolvedValue([{}]),
+      }),
+    }),
+  })),
+}));
+
+import { BigQueryService } from '../services/bigquery';
+import { BillingRecord } from '../types/billing';
+
+describe('BigQueryService', () => {
+  let service: BigQueryService;
+
+  beforeEach(() => {
+    mockQuery.mockReset().mockResolvedValue([[]]);
+    mockExists.mockReset().mockResolvedValue([true]);
+    service = new BigQueryService();
+  });
+
+  const record = (overrides: Partial<BillingRecord>): BillingRecord => ({
+    shop: 'test-shop',
+    billing_date: '2024-01-01',
+    page_views: 1000,
+    billing_amount: 0.01,
+    pricing_plan_id: 'standard',
+    pricing_tier: 0,
+    raw_amount: 0.01,
+    carry_over_consumed: 0,
+    carry_over_balance: 0,
+    ...overrides,
+  });
+
+  describe('getPageViewsForDate', () => {
+    it('should pass the date as a query parameter', async () => {
+      await service.getPageViewsForDate('2024-01-01');
+
+      const options = mockQuery.mock.calls[0][0];
+      expect(options.query).toContain('@targetDate');
+      expect(options.query).not.toContain('2024-01-01');
+      expect(options.params).toEqual({ targetDate: '2024-01-01', timezone: 'Asia/Tokyo', shopTimezones: [] });
+    });
+
+    it('should count the billing day in the billing timezone rather than the UTC day', async () => {
+      await service.getPageViewsForDate('2024-01-01', 'America/New_York', new Map([['shop-a', 'Europe/Paris']]));
+
+      const options = mockQuery.mock.calls[0][0];
+      expect(options.query).not.toContain('DATE(created_at) = DATE(@targetDate)');
+      expect(options.query).toContain('TIMESTAMP(DATE(@targetDate), COALESCE(shop_timezones.timezone, @timezone))');
+      expect(options.params.timezone).toBe('America/New_York');
+      expect(options.params.shopTimezones).toEqual([{ shop: 'shop-a', timezone: 'Europe/Paris' }]);
+    });
+
+    it('should reject malformed dates before querying', async () => {
+      await expect(service.getPageViewsForDate("2024-01-01') OR TRUE --")).rejects.toThrow('Invalid targetDate');
+      await expect(service.getPageViewsForDate('2024-02-30')).rejects.toThrow('Invalid targetDate');
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateBillingRecords', () => {
+    it('should update all records with a single parameterized MERGE', async () => {
+      await service.updateBillingRecords([
+        record({ shop: 'shop-a', shopify_billing_status: 'failed', shopify_error_message: "Can't exceed the cap" }),
+        record({ shop: 'shop-b', shopify_billing_status: 'success', shopify_charge_id: 'gid://shopify/AppUsageRecord/1' }),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      const options = mockQuery.mock.calls[0][0];
+      expect(options.query).toContain('MERGE');
+      expect(options.query).not.toContain("Can't");
+      expect(options.params.records).toHaveLength(2);
+      expect(options.params.records[0]).toMatchObject({
+        shop: 'shop-a',
+        shopify_error_message: "Can't exceed the cap",
+        shopify_charge_id: null,
+      });
+    });
+  });
+
+  describe('read-only reads of usage_records_current', () => {
+    it('should read the existing view without creating or altering it', async () => {
+      await service.getCarryOverBalances('2024-01-01', true);
+
+      expect(mockExists).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][0].query).toContain('usage_records_current');
+    });
+
+    it('should read no state when the view does not exist yet', async () => {
+      mockExists.mockResolvedValue([false]);
+
+      expect(await service.getMonthToDatePageViews('2024-01-01', true)).toEqual([]);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('finishBatchRun', () => {
+    it('should update only a running row when asked and report whether it did', async () => {
+      mockQuery.mockResolvedValue([[{ updated_rows: 0 }]]);
+
+      expect(await service.finishBatchRun({ run_id: 'run-1', status: 'succeeded' }, true)).toBe(false);
+
+      const options = mockQuery.mock.calls[0][0];
+      expect(options.query).toContain("WHERE run_id = @runId AND status = 'running'");
+      expect(options.query).toContain('@@row_count');
+
+      mockQuery.mockResolvedValue([[{ updated_rows: 1 }]]);
+      expect(await service.finishBatchRun({ run_id: 'run-1', status: 'succeeded' })).toBe(true);
+      expect(mockQuery.mock.calls[1][0].query).not.toContain("status = 'running'");
+    });
+  });
+
+  describe('getBilledDates', () => {
+    it('should not count a day whose charges all failed as billed', async () => {
+      await service.getBilledDates('2024-01-01', '2024-01-07');
+
+      const { query } = mockQuery.mock.calls[0][0];
+      // A run that ended with failed charges does not close the day
+      expect(query).toContain('COALESCE(failed_count, 0) = 0');
+      // Only successful, capped or parked outcomes do; failed rows alone leave the day to catch-up
+      expect(query).toContain("shopify_billing_status IN ('success', 'capped', 'held', 'awaiting_approval', 'rejected')");
+      expect(query).not.toContain("!= 'pending'");
+    });
+
+    it('should not count a day whose latest run deferred shops as billed', async () => {
+      await service.getBilledDates('2024-01-01', '2024-01-07');
+
+      const { query } = mockQuery.mock.calls[0][0];
+      expect(query).toContain('COALESCE(deferred_shops, 0) = 0');
+      // Shops charged before the deferral must not close the day for the deferred ones
+      expect(query).toContain('billing_date NOT IN');
+      expect(query).toContain('COALESCE(deferred_shops, 0) > 0');
+    });
+  });
+});
@@ -0,0 +1,690 @@
+const mockBigQuery = {
+  getBilledDates: jest.fn(),
+  claimBatchRun: jest.fn(),
+  refuseBatchRun: jest.fn(),
+  finishBatchRun: jest.fn(),
+  getCurrentBillingRecords: jest.fn(),
+  getChargeLedgerEntries: jest.fn(),
+  getActiveShopifySessions: jest.fn(),
+  getFxRates: jest.fn(),
+  getBillingDateSummaries: jest.fn(),
+  insertBillingRecords: jest.fn(),
+  insertChargeLedgerEntries: jest.fn(),
+  getPageViewsForDate: jest.fn(),
+  getShopPricingPlans: jest.fn(),
+  getMonthToDatePageViews: jest.fn(),
+  getCarryOverBalances: jest.fn(),
+  getPageViewHistory: jest.fn(),
+  getShopApprovalThresholds: jest.fn(),
+  insertChargeCompletions: jest.fn(),
+  getChargeCompletions: jest.fn(),
+  getLatestShopStatuses: jest.fn(),
+  insertShopStatuses: jest.fn(),
+};
+const mockShopify = {
+  chargeShops: jest.fn(),
+  checkShopStatuses: jest.fn(),
+  getShopTimezones: jest.fn(),
+};
+const mockPubSub = {
+  publishChargeJobs: jest.fn(),
+  publishChargeCompletion: jest.fn(),
+};
+const mockNotificationRouter = {
+  notify: jest.fn(),
+};
+
+jest.mock('../services/bigquery', () => ({
+  BigQueryService: jest.fn().mockImplementation(() => mockBigQuery),
+}));
+jest.mock('../services/shopifyBilling', () => ({
+  ShopifyBillingService: jest.fn().mockImplementation(() => mockShopify),
+  buildIdempotencyKey: (shop: string, billingDate: string) => `${shop}:${billingDate}`,
+}));
+jest.mock('../services/pubsub', () => ({
+  PubSubService: jest.fn().mockImplementation(() => mockPubSub),
+}));
+jest.mock('../services/notifier', () => ({
+  NotificationRouter: jest.fn().mockImplementation(() => mockNotificationRouter),
+}));
+
+import { BillingService } from '../services/billing';
+import { BillingRecord, ChargeCompletion, ChargeJob, DailyBillingResult, ShopifySession } from '../types/billing';
+
+describe('BillingService', () => {
+  let service: BillingService;
+
+  const dailyResult = (targetDate: string): DailyBillingResult => ({
+    success: true,
+    targetDate,
+    skipped: false,
+    activeSessions: 1,
+    shopsWithPageViews: 1,
+    billingRecordsGenerated: 1,
+    totalPageViews: 1000,
+    totalAmount: 1,
+  });
+
+  const record = (overrides: Partial<BillingRecord>): BillingRecord => ({
+    shop: 'shop-a',
+    billing_date: '2024-01-01',
+    page_views: 1000,
+    billing_amount: 1,
+    pricing_plan_id: 'standard',
+    pricing_tier: 0,
+    raw_amount: 1,
+    carry_over_consumed: 0,
+    carry_over_balance: 0,
+    ...overrides,
+  });
+
+  const session = (shop: string): ShopifySession => ({
+    session_id: `offline_${shop}`,
+    shop,
+    accessToken: `token-${shop}`,
+    created_at: '2023-12-01',
+    updated_at: '2023-12-01',
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    [...Object.values(mockBigQuery), ...Object.values(mockShopify), ...Object.values(mockPubSub), ...Object.values(mockNotificationRouter)].forEach(fn => fn.mockReset().mockResolvedValue([]));
+    mockBigQuery.finishBatchRun.mockResolvedValue(true);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    // 2024-01-10 12:00 in Asia/Tokyo, so the latest billable date is 2024-01-09
+    jest.useFakeTimers({ now: new Date('2024-01-10T03:00:00Z') });
+    mockBigQuery.claimBatchRun.mockImplementation(async (runId: string, triggerType: string, billingDate: string) => [{
+      run_id: runId,
+      trigger_type: triggerType,
+      billing_date: billingDate,
+      status: 'running',
+      started_at: '2024-01-10T03:00:00.000Z',
+      lease_expires_at: '2024-01-10T03:30:00.000Z',
+    }]);
+    process.env.SHOP_STATUS_PREFLIGHT = 'false';
+    service = new BillingService();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    delete process.env.CATCH_UP_DAYS;
+    delete process.env.SHOP_STATUS_PREFLIGHT;
+    delete process.env.CHARGE_FANOUT;
+    delete process.env.USE_SHOP_TIMEZONE;
+  });
+
+  // One session per shop with 1M page views each, which the default plan bills at $10
+  const givenShops = (...shops: string[]) => {
+    mockBigQuery.getActiveShopifySessions.mockResolvedValue(shops.map(session));
+    mockBigQuery.getPageViewsForDate.mockResolvedValue(shops.map(shop => ({ shop, event_count: 1000000 })));
+  };
+
+  const chargeAll = () => mockShopify.chargeShops.mockImplementation(async (_sessions, chargeMap: Map<string, number>) =>
+    [...chargeMap.entries()].map(([shop, amount]) => ({ shop, status: 'success', chargeId: `gid://${shop}`, amount }))
+  );
+
+  describe('processBackfill', () => {
+    it('should run only the dates without a completed run, oldest first', async () => {
+      mockBigQuery.getBilledDates.mockResolvedValue(['2024-01-02', '2024-01-04']);
+      const processDailyBilling = jest.spyOn(service, 'processDailyBilling')
+        .mockImplementation(async targetDate => dailyResult(targetDate as string));
+
+      const result = await service.processBackfill('2024-01-01', '2024-01-05');
+
+      expect(mockBigQuery.getBilledDates).toHaveBeenCalledWith('2024-01-01', '2024-01-05');
+      expect(result.missingDates).toEqual(['2024-01-01', '2024-01-03', '2024-01-05']);
+      expect(processDailyBilling.mock.calls.map(call => call[0])).toEqual(['2024-01-01', '2024-01-03', '2024-01-05']);
+      expect(processDailyBilling).toHaveBeenCalledWith('2024-01-01', { trigger: 'manual' });
+      expect(result.success).toBe(true);
+    });
+
+    it('should report failure when any date fails', async () => {
+      mockBigQuery.getBilledDates.mockResolvedValue([]);
+      jest.spyOn(service, 'processDailyBilling').mockImplementation(async targetDate => ({
+        ...dailyResult(targetDate as string),
+        success: targetDate !== '2024-01-02',
+      }));
+
+      const result = await service.processBackfill('2024-01-01', '2024-01-03');
+
+      expect(result.results).toHaveLength(3);
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject ranges that are reversed, reach past the latest billable date or are too long', async () => {
+      await expect(service.processBackfill('2024-01-05', '2024-01-01')).rejects.toThrow('is after end date');
+      await expect(service.processBackfill('2024-01-08', '2024-01-10')).rejects.toThrow('latest billable date 2024-01-09');
+      await expect(service.processBackfill('2023-12-09', '2024-01-09')).rejects.toThrow('longer than MAX_BACKFILL_DAYS (31 days)');
+      expect(mockBigQuery.getBilledDates).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processCatchUp', () => {
+    it('should do nothing unless CATCH_UP_DAYS is set', async () => {
+      expect(await service.processCatchUp()).toBeNull();
+      expect(mockBigQuery.getBilledDates).not.toHaveBeenCalled();
+    });
+
+    it('should backfill the last CATCH_UP_DAYS days up to yesterday as a scheduled run', async () => {
+      process.env.CATCH_UP_DAYS = '3';
+      mockBigQuery.getBilledDates.mockResolvedValue(['2024-01-07', '2024-01-08']);
+      const processDailyBilling = jest.spyOn(service, 'processDailyBilling')
+        .mockImplementation(async targetDate => dailyResult(targetDate as string));
+
+      const result = await service.processCatchUp();
+
+      expect(mockBigQuery.getBilledDates).toHaveBeenCalledWith('2024-01-07', '2024-01-09');
+      expect(result?.missingDates).toEqual(['2024-01-09']);
+      expect(processDailyBilling).toHaveBeenCalledWith('2024-01-09', { trigger: 'scheduled' });
+    });
+  });
+
+  describe('retryFailedCharges', () => {
+    it('should retry only shops whose current status is failed and that are not in the ledger', async () => {
+      mockBigQuery.getCurrentBillingRecords.mockResolvedValue([
+        record({ shop: 'failed-shop', shopify_billing_status: 'failed', shopify_error_category: 'transient', shopify_error_message: 'Rate limit exceeded' }),
+        record({ shop: 'charged-elsewhere', shopify_billing_status: 'failed' }),
+        record({ shop: 'success-shop', shopify_billing_status: 'success', shopify_charge_id: 'gid://1' }),
+        record({ shop: 'capped-shop', shopify_billing_status: 'capped' }),
+        record({ shop: 'pending-shop', shopify_billing_status: 'pending' }),
+        record({ shop: 'held-shop', shopify_billing_status: 'held' }),
+      ]);
+      mockBigQuery.getChargeLedgerEntries.mockResolvedValue([
+        { shop: 'charged-elsewhere', billing_date: '2024-01-01', idempotency_key: 'k', shopify_charge_id: 'gid://2', amount: 1, currency_code: 'USD', charged_at: '2024-01-02T00:00:00Z' },
+      ]);
+      mockBigQuery.getActiveShopifySessions.mockResolvedValue(
+        ['failed-shop', 'charged-elsewhere', 'success-shop'].map(session)
+      );
+      mockShopify.chargeShops.mockResolvedValue([{ shop: 'failed-shop', status: 'success', chargeId: 'gid://3', amount: 1 }]);
+
+      const result = await service.retryFailedCharges('2024-01-01');
+
+      const [sessions, chargeMap] = mockShopify.chargeShops.mock.calls[0];
+      expect(sessions.map((item: ShopifySession) => item.shop)).toEqual(['failed-shop']);
+      expect([...chargeMap.keys()]).toEqual(['failed-shop']);
+      expect(result.shopResults).toEqual([expect.objectContaining({ shop: 'failed-shop', shopifyStatus: 'success' })]);
+    });
+
+    it('should append the retry outcome without the previous error', async () => {
+      mockBigQuery.getCurrentBillingRecords.mockResolvedValue([
+        record({ shop: 'failed-shop', shopify_billing_status: 'failed', shopify_error_category: 'transient', shopify_error_message: 'Rate limit exceeded' }),
+      ]);
+      mockBigQuery.getActiveShopifySessions.mockResolvedValue([session('failed-shop')]);
+      mockShopify.chargeShops.mockResolvedValue([{ shop: 'failed-shop', status: 'success', chargeId: 'gid://3', amount: 1 }]);
+
+      await service.retryFailedCharges('2024-01-01');
+
+      const [[appended]] = mockBigQuery.insertBillingRecords.mock.calls[0];
+      expect(appended).toMatchObject({ shop: 'failed-shop', shopify_billing_status: 'success', shopify_charge_id: 'gid://3' });
+      expect(appended.shopify_error_message).toBeUndefined();
+      expect(mockBigQuery.insertChargeLedgerEntries).toHaveBeenCalledWith([
+        expect.objectContaining({ shop: 'failed-shop', shopify_charge_id: 'gid://3' }),
+      ]);
+    });
+
+    it('should keep the hold resolution of a released day that failed to charge', async () => {
+      mockBigQuery.getCurrentBillingRecords.mockResolvedValue([
+        record({
+          shop: 'released-shop',
+          billing_amount: 8,
+          shopify_billing_status: 'failed',
+          shopify_error_message: 'Rate limit exceeded',
+          approval_threshold: 5,
+          held_amount: 10,
+          hold_resolution: 'adjusted',
+          hold_resolved_by: 'U123',
+        }),
+      ]);
+      mockBigQuery.getActiveShopifySessions.mockResolvedValue([session('released-shop')]);
+      chargeAll();
+
+      await service.retryFailedCharges('2024-01-01');
+
+      const [[appended]] = mockBigQuery.insertBillingRecords.mock.calls[0];
+      expect(appended).toMatchObject({
+        shop: 'released-shop',
+        billing_amount: 8,
+        shopify_billing_status: 'success',
+        approval_threshold: 5,
+        held_amount: 10,
+        hold_resolution: 'adjusted',
+        hold_resolved_by: 'U123',
+      });
+      expect(appended.shopify_error_message).toBeUndefined();
+    });
+
+    it('should record shops without an active session as failed', async () => {
+      mockBigQuery.getCurrentBillingRecords.mockResolvedValue([record({ shop: 'gone-shop', shopify_billing_status: 'failed' })]);
+
+      const result = await service.retryFailedCharges('2024-01-01');
+
+      expect(result.chargeResults).toEqual([expect.objectContaining({ shop: 'gone-shop', status: 'failed', errorCategory: 'auth' })]);
+      expect(mockBigQuery.insertBillingRecords.mock.calls[0][0][0].shopify_billing_status).toBe('failed');
+    });
+
+    it('should skip when no shop failed', async () => {
+      mockBigQuery.getCurrentBillingRecords.mockResolvedValue([record({ shopify_billing_status: 'success' })]);
+
+      const result = await service.retryFailedCharges('2024-01-01');
+
+      expect(result).toMatchObject({ skipped: true, skipReason: 'No failed charges found' });
+      expect(mockShopify.chargeShops).not.toHaveBeenCalled();
+    });
+
+    it('should take the batch run lock for the date and wait for a run that holds it', async () => {
+      mockBigQuery.getCurrentBillingRecords.mockResolvedValue([record({ shop: 'failed-shop', shopify_billing_status: 'failed' })]);
+      mockBigQuery.claimBatchRun.mockResolvedValue([{
+        run_id: 'billing-run',
+        trigger_type: 'scheduled',
+        billing_date: '2024-01-01',
+        status: 'running',
+        started_at: '2024-01-10T02:55:00.000Z',
+        lease_expires_at: '2024-01-10T03:25:00.000Z',
+      }]);
+
+      const result = await service.retryFailedCharges('2024-01-01');
+
+      expect(mockBigQuery.claimBatchRun).toHaveBeenCalledWith(expect.any(String), 'retry', '2024-01-01', expect.any(Number));
+      expect(result).toMatchObject({ skipped: true, lockedByRunId: 'billing-run' });
+      expect(mockShopify.chargeShops).not.toHaveBeenCalled();
+      expect(mockBigQuery.insertBillingRecords).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('current state summary', () => {
+    const summary = {
+      billing_date: '2024-01-01',
+      shops: 2,
+      total_page_views: 2000000,
+      total_amount: 20,
+      success_count: 2,
+      failed_count: 0,
+      capped_count: 0,
+      held_count: 0,
+      awaiting_approval_count: 0,
+      pending_count: 0,
+    };
+
+    it('should attach the totals of usage_records_current to the daily result', async () => {
+      givenShops('shop-a', 'shop-b');
+      chargeAll();
+      mockBigQuery.getBillingDateSummaries.mockResolvedValue([summary]);
+
+      const result = await service.processDailyBilling('2024-01-01');
+
+      expect(mockBigQuery.getBillingDateSummaries).toHaveBeenCalledWith('2024-01-01');
+      expect(result.currentSummary).toEqual(summary);
+      expect(result.totalAmount).toBe(20);
+    });
+
+    it('should not fail the run when the summary cannot be read', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      givenShops('shop-a');
+      chargeAll();
+      mockBigQuery.getBillingDateSummaries.mockRejectedValue(new Error('view missing'));
+
+      const result = await service.processDailyBilling('2024-01-01');
+
+      expect(result.success).toBe(true);
+      expect(result.currentSummary).toBeUndefined();
+    });
+
+    it('should read retry candidates and the summary from the current state', async () => {
+      mockBigQuery.getCurrentBillingRecords.mockResolvedValue([record({ shopify_billing_status: 'failed' })]);
+      mockBigQuery.getActiveShopifySessions.mockResolvedValue([session('shop-a')]);
+      chargeAll();
+      mockBigQuery.getBillingDateSummaries.mockResolvedValue([summary]);
+
+      const result = await service.retryFailedCharges('2024-01-01');
+
+      expect(mockBigQuery.getCurrentBillingRecords).toHaveBeenCalledWith('2024-01-01');
+      expect(result.currentSummary).toEqual(summary);
+    });
+  });
+
+  describe('charge jobs', () => {
+    const job = (shop: string, expectedJobs = 2): ChargeJob => ({
+      run_id: 'run-1',
+      billing_date: '2024-01-01',
+      expected_jobs: expectedJobs,
+      record: record({ shop, billing_amount: 10, shopify_billing_status: 'pending' }),
+    });
+
+    const completion = (shop: string, completedAt: string, overrides: Partial<ChargeCompletion> = {}): ChargeCompletion => ({
+      run_id: 'run-1',
+      billing_date: '2024-01-01',
+      expected_jobs: 2,
+      shop,
+      page_views: 1000,
+      billing_amount: 10,
+      status: 'success',
+      completed_at: completedAt,
+      ...overrides,
+    });
+
+    const ledgerEntry = (shop: string) => ({
+      shop,
+      billing_date: '2024-01-01',
+      idempotency_key: `${shop}:2024-01-01`,
+      shopify_charge_id: `gid://${shop}`,
+      amount: 10,
+      currency_code: 'USD',
+      charged_at: '2024-01-02T00:00:00.000Z',
+    });
+
+    describe('processChargeJob', () => {
+      it('should charge the shop, append the outcome and publish a completion', async () => {
+        mockBigQuery.getActiveShopifySessions.mockResolvedValue([session('shop-a')]);
+        chargeAll();
+
+        const result = await service.processChargeJob(job('shop-a'));
+
+        expect(result).toMatchObject({ run_id: 'run-1', shop: 'shop-a', status: 'success', charge_id: 'gid://shop-a' });
+        expect(mockBigQuery.insertBillingRecords.mock.calls[0][0][0]).toMatchObject({ shopify_billing_status: 'success' });
+        expect(mockBigQuery.insertChargeCompletions).toHaveBeenCalledWith([result]);
+        expect(mockPubSub.publishChargeCompletion).toHaveBeenCalledWith(result);
+      });
+
+      it('should save the success row on redelivery when an earlier attempt charged but did not save', async () => {
+        mockBigQuery.getChargeLedgerEntries.mockResolvedValue([ledgerEntry('shop-a')]);
+        mockBigQuery.getCurrentBillingRecords.mockResolvedValue([record({ shop: 'shop-a', shopify_billing_status: 'pending' })]);
+
+        const result = await service.processChargeJob(job('shop-a'));
+
+        expect(mockShopify.chargeShops).not.toHaveBeenCalled();
+        expect(result.status).toBe('already_charged');
+        expect(mockBigQuery.insertBillingRecords.mock.calls[0][0][0]).toMatchObject({
+          shopify_billing_status: 'success',
+          shopify_charge_id: 'gid://shop-a',
+        });
+      });
+
+      it('should not append another row when the charge was already saved', async () => {
+        mockBigQuery.getChargeLedgerEntries.mockResolvedValue([ledgerEntry('shop-a')]);
+        mockBigQuery.getCurrentBillingRecords.mockResolvedValue([record({ shop: 'shop-a', shopify_billing_status: 'success' })]);
+
+        await service.processChargeJob(job('shop-a'));
+
+        expect(mockBigQuery.insertBillingRecords).not.toHaveBeenCalled();
+        expect(mockPubSub.publishChargeCompletion).toHaveBeenCalled();
+      });
+    });
+
+    describe('failChargeJob', () => {
+      it('should record the shop as failed and still complete the job', async () => {
+        const result = await service.failChargeJob(job('shop-a'), new Error('BigQuery timeout'));
+
+        expect(result).toMatchObject({ shop: 'shop-a', status: 'failed', error_message: 'BigQuery timeout' });
+        expect(mockBigQuery.insertBillingRecords.mock.calls[0][0][0]).toMatchObject({
+          shopify_billing_status: 'failed',
+          shopify_error_message: 'BigQuery timeout',
+        });
+        expect(mockPubSub.publishChargeCompletion).toHaveBeenCalledWith(result);
+      });
+    });
+
+    describe('finalizeChargeRun', () => {
+      it('should wait until every shop has completed', async () => {
+        const first = completion('shop-a', '2024-01-02T00:00:00.000Z');
+        mockBigQuery.getChargeCompletions.mockResolvedValue([first]);
+
+        expect(await service.finalizeChargeRun(first)).toBeNull();
+      });
+
+      it('should report once, for the completion of the last shop', async () => {
+        const first = completion('shop-a', '2024-01-02T00:00:00.000Z');
+        const last = completion('shop-b', '2024-01-02T00:00:01.000Z', { status: 'failed', error_message: 'Card declined' });
+        mockBigQuery.getChargeCompletions.mockResolvedValue([first, last]);
+        mockBigQuery.finishBatchRun.mockResolvedValueOnce(true).mockResolvedValue(false);
+
+        const result = await service.finalizeChargeRun(last);
+
+        expect(result?.shopResults).toEqual([
+          expect.objectContaining({ shop: 'shop-a', shopifyStatus: 'success' }),
+          expect.objectContaining({ shop: 'shop-b', shopifyStatus: 'failed', shopifyError: 'Card declined' }),
+        ]);
+        expect(result?.billingRecordsGenerated).toBe(2);
+        expect(await service.finalizeChargeRun(first)).toBeNull();
+      });
+
+      it('should count duplicate deliveries of a job once', async () => {
+        const first = completion('shop-a', '2024-01-02T00:00:00.000Z');
+        const duplicate = completion('shop-a', '2024-01-02T00:00:00.500Z', { status: 'already_charged' });
+        mockBigQuery.getChargeCompletions.mockResolvedValue([first, duplicate]);
+
+        expect(await service.finalizeChargeRun(duplicate)).toBeNull();
+
+        const last = completion('shop-b', '2024-01-02T00:00:01.000Z');
+        const late = completion('shop-a', '2024-01-02T00:00:02.000Z', { status: 'already_charged' });
+        mockBigQuery.getChargeCompletions.mockResolvedValue([first, duplicate, last, late]);
+        mockBigQuery.finishBatchRun.mockResolvedValueOnce(true).mockResolvedValue(false);
+
+        const result = await service.finalizeChargeRun(last);
+        expect(result?.shopResults?.map(shopResult => shopResult.shopifyStatus)).toEqual(['success', 'success']);
+        expect(await service.finalizeChargeRun(late)).toBeNull();
+      });
+
+      it('should report when completions are stored out of order', async () => {
+        // B stamped its completion first, but A's row was stored first
+        const b = completion('shop-b', '2024-01-02T00:00:00.000Z');
+        const a = completion('shop-a', '2024-01-02T00:00:01.000Z');
+
+        mockBigQuery.getChargeCompletions.mockResolvedValue([a]);
+        expect(await service.finalizeChargeRun(a)).toBeNull();
+
+        mockBigQuery.getChargeCompletions.mockResolvedValue([b, a]);
+        const result = await service.finalizeChargeRun(b);
+
+        expect(result?.shopResults?.map(shopResult => shopResult.shop)).toEqual(['shop-b', 'shop-a']);
+        expect(mockBigQuery.finishBatchRun).toHaveBeenCalledTimes(1);
+      });
+
+      it('should finish the batch run and report only if it was still running', async () => {
+        const first = completion('shop-a', '2024-01-02T00:00:00.000Z');
+        const last = completion('shop-b', '2024-01-02T00:00:01.000Z');
+        mockBigQuery.getChargeCompletions.mockResolvedValue([first, last]);
+        mockBigQuery.finishBatchRun.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+        expect(await service.finalizeChargeRun(last)).not.toBeNull();
+        expect(mockBigQuery.finishBatchRun).toHaveBeenCalledWith(
+          expect.objectContaining({ run_id: 'run-1', status: 'succeeded', success_count: 2, dispatched_jobs: 2 }),
+          true
+        );
+
+        // The same completion event delivered again
+        expect(await service.finalizeChargeRun(last)).toBeNull();
+      });
+    });
+
+    describe('fan-out', () => {
+      it('should dispatch jobs under the batch run ID and keep the run open for the finalizer', async () => {
+        process.env.CHARGE_FANOUT = 'true';
+        service = new BillingService();
+        givenShops('shop-a', 'shop-b');
+
+        const result = await service.processDailyBilling('2024-01-01');
+
+        const [claimedRunId] = mockBigQuery.claimBatchRun.mock.calls[0];
+        expect(result.runId).toBe(claimedRunId);
+        expect(result.dispatchedJobs).toBe(2);
+        expect(mockPubSub.publishChargeJobs.mock.calls[0][0].map((chargeJob: ChargeJob) => chargeJob.run_id))
+          .toEqual([claimedRunId, claimedRunId]);
+        expect(mockShopify.chargeShops).not.toHaveBeenCalled();
+        expect(mockBigQuery.finishBatchRun).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('shop status preflight', () => {
+    it('should re-check a frozen shop every run and bill it again once it is active', async () => {
+      process.env.SHOP_STATUS_PREFLIGHT = 'true';
+      service = new BillingService();
+      givenShops('shop-a');
+      chargeAll();
+      // Frozen on an earlier run with the same session, which unfreezing does not change
+      mockBigQuery.getLatestShopStatuses.mockResolvedValue([
+        { shop: 'shop-a', status: 'frozen', session_updated_at: '2023-12-01', checked_at: '2024-01-05T16:00:00.000Z' },
+      ]);
+      mockShopify.checkShopStatuses.mockImplementation(async (sessions: ShopifySession[]) =>
+        new Map(sessions.map(checked => [checked.shop, { status: 'active', session: checked }]))
+      );
+
+      const result = await service.processDailyBilling('2024-01-09');
+
+      expect(mockShopify.checkShopStatuses.mock.calls[0][0].map((checked: ShopifySession) => checked.shop)).toEqual(['shop-a']);
+      expect(result.inactiveShops).toBe(0);
+      expect(result.shopStatusChanges).toEqual([{ shop: 'shop-a', previousStatus: 'frozen', status: 'active' }]);
+      expect(mockShopify.chargeShops.mock.calls[0][1]).toEqual(new Map([['shop-a', 10]]));
+    });
+  });
+
+  describe('shop timezones', () => {
+    it('should defer shops whose billing date has not ended in their timezone', async () => {
+      process.env.USE_SHOP_TIMEZONE = 'true';
+      service = new BillingService();
+      givenShops('tokyo-shop', 'la-shop');
+      chargeAll();
+      mockShopify.getShopTimezones.mockResolvedValue(new Map([
+        ['tokyo-shop', 'Asia/Tokyo'],
+        ['la-shop', 'America/Los_Angeles'],
+      ]));
+
+      // At 2024-01-10 03:00 UTC, 2024-01-09 is over in Tokyo but runs until 08:00 UTC in Los Angeles
+      const result = await service.processDailyBilling('2024-01-09');
+
+      expect(mockShopify.chargeShops.mock.calls[0][1]).toEqual(new Map([['tokyo-shop', 10]]));
+      expect(mockBigQuery.insertBillingRecords.mock.calls[0][0].map((row: BillingRecord) => row.shop)).toEqual(['tokyo-shop']);
+      expect(result.deferredShops).toBe(1);
+      expect(mockBigQuery.finishBatchRun).toHaveBeenCalledWith(expect.objectContaining({ status: 'succeeded', deferred_shops: 1 }));
+
+      // A later run for the date bills the deferred shop once its day is over
+      jest.setSystemTime(new Date('2024-01-10T08:00:00Z'));
+      mockBigQuery.getChargeLedgerEntries.mockResolvedValue([{ shop: 'tokyo-shop', billing_date: '2024-01-09', shopify_charge_id: 'gid://tokyo-shop', amount: 10 }]);
+
+      const later = await service.processDailyBilling('2024-01-09');
+
+      expect(mockShopify.chargeShops.mock.calls[1][1]).toEqual(new Map([['la-shop', 10]]));
+      expect(later.deferredShops).toBe(0);
+    });
+  });
+
+  describe('dry run', () => {
+    it('should report nothing as saved and leave the current-state view alone', async () => {
+      givenShops('shop-a');
+      chargeAll();
+
+      const result = await service.processDailyBilling('2024-01-01', { dryRun: true });
+
+      expect(result.shopResults).toEqual([expect.objectContaining({ shop: 'shop-a', bigQuerySaved: false, shopifyStatus: 'success' })]);
+      expect(mockShopify.chargeShops.mock.calls[0][3]).toMatchObject({ dryRun: true });
+      expect(mockBigQuery.getMonthToDatePageViews).toHaveBeenCalledWith('2024-01-01', true);
+      expect(mockBigQuery.getCarryOverBalances).toHaveBeenCalledWith('2024-01-01', true);
+      expect(mockBigQuery.getPageViewHistory).toHaveBeenCalledWith('2024-01-01', 14, true);
+      expect(mockBigQuery.getCurrentBillingRecords).toHaveBeenCalledWith('2024-01-01', '2024-01-01', undefined, true);
+      expect(mockBigQuery.insertBillingRecords).not.toHaveBeenCalled();
+      expect(mockBigQuery.claimBatchRun).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('re-runs of a date with parked charges', () => {
+    it('should leave held, awaiting and resolved shops alone and park only new ones', async () => {
+      givenShops('held-shop', 'awaiting-shop', 'released-shop', 'new-shop');
+      mockBigQuery.getCurrentBillingRecords.mockResolvedValue([
+        record({ shop: 'held-shop', billing_amount: 10, shopify_billing_status: 'held', hold_reason: 'spike' }),
+        record({ shop: 'awaiting-shop', billing_amount: 10, shopify_billing_status: 'awaiting_approval', approval_threshold: 5 }),
+        record({ shop: 'released-shop', billing_amount: 10, shopify_billing_status: 'failed', hold_resolution: 'released' }),
+      ]);
+      mockBigQuery.getShopApprovalThresholds.mockResolvedValue(
+        ['held-shop', 'awaiting-shop', 'released-shop', 'new-shop'].map(shop => ({ shop, threshold_amount: 5 }))
+      );
+
+      const result = await service.processDailyBilling('2024-01-01');
+
+      expect(mockBigQuery.insertBillingRecords).toHaveBeenCalledTimes(1);
+      expect(mockBigQuery.insertBillingRecords.mock.calls[0][0].map((row: BillingRecord) => row.shop)).toEqual(['new-shop']);
+      expect(mockNotificationRouter.notify).toHaveBeenCalledWith({
+        kind: 'approval_request',
+        records: [expect.objectContaining({ shop: 'new-shop' })],
+      });
+      expect(mockShopify.chargeShops).not.toHaveBeenCalled();
+      expect(result.shopResults?.map(shopResult => [shopResult.shop, shopResult.shopifyStatus])).toEqual([
+        ['new-shop', 'awaiting_approval'],
+        ['held-shop', 'held'],
+        ['awaiting-shop', 'awaiting_approval'],
+        ['released-shop', 'failed'],
+      ]);
+    });
+  });
+
+  describe('resolveHeldCharge', () => {
+    beforeEach(() => {
+      mockBigQuery.getCurrentBillingRecords.mockResolvedValue([
+        record({ shop: 'shop-a', billing_amount: 120, shopify_billing_status: 'awaiting_approval', approval_threshold: 100 }),
+      ]);
+      mockBigQuery.getActiveShopifySessions.mockResolvedValue([session('shop-a')]);
+      chargeAll();
+    });
+
+    it('should charge an approved amount and record the approver', async () => {
+      const result = await service.resolveHeldCharge('shop-a', '2024-01-01', { resolvedBy: 'alice' });
+
+      expect(mockShopify.chargeShops.mock.calls[0][1]).toEqual(new Map([['shop-a', 120]]));
+      expect(result.shopResults?.[0].shopifyStatus).toBe('success');
+      expect(mockBigQuery.insertBillingRecords.mock.calls[0][0][0]).toMatchObject({
+        shopify_billing_status: 'success',
+        hold_resolution: 'approved',
+        hold_resolved_by: 'alice',
+      });
+    });
+
+    it('should close a rejected charge as rejected without charging', async () => {
+      const result = await service.resolveHeldCharge('shop-a', '2024-01-01', { amount: 0, resolvedBy: 'alice' });
+
+      expect(mockShopify.chargeShops).not.toHaveBeenCalled();
+      expect(result.shopResults?.[0]).toMatchObject({ shopifyStatus: 'rejected', billingAmount: 0 });
+      expect(mockBigQuery.insertBillingRecords.mock.calls[0][0][0]).toMatchObject({
+        shopify_billing_status: 'rejected',
+        billing_amount: 0,
+        held_amount: 120,
+        hold_resolution: 'rejected',
+        hold_resolved_by: 'alice',
+      });
+    });
+
+    it('should carry the balance consumed by a rejected day on to the next billing day', async () => {
+      mockBigQuery.getCurrentBillingRecords.mockResolvedValue([
+        record({
+          shop: 'shop-a',
+          billing_amount: 120,
+          raw_amount: 119.704,
+          carry_over_consumed: 0.3,
+          carry_over_balance: 0.004,
+          shopify_billing_status: 'awaiting_approval',
+          approval_threshold: 100,
+        }),
+      ]);
+
+      await service.resolveHeldCharge('shop-a', '2024-01-01', { amount: 0 });
+
+      // getCarryOverBalances reads carry_over_balance from the latest earlier day, rejected or not
+      expect(mockBigQuery.insertBillingRecords.mock.calls[0][0][0]).toMatchObject({
+        shopify_billing_status: 'rejected',
+        carry_over_consumed: 0,
+        carry_over_balance: 0.3,
+      });
+    });
+
+    it('should not charge a rejected day on a later run', async () => {
+      givenShops('shop-a');
+      mockBigQuery.getCurrentBillingRecords.mockResolvedValue([
+        record({ shop: 'shop-a', billing_amount: 0, shopify_billing_status: 'rejected', hold_resolution: 'rejected' }),
+      ]);
+
+      const result = await service.processDailyBilling('2024-01-01');
+
+      expect(mockShopify.chargeShops).not.toHaveBeenCalled();
+      expect(mockBigQuery.insertBillingRecords).not.toHaveBeenCalled();
+      expect(result.shopResults?.[0].shopifyStatus).toBe('rejected');
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import fs from 'fs';
+import path from 'path';
+import { Translator, loadCatalog, LOCALES } from '../i18n';
+import ja from '../i18n/locales/ja';
+
+describe('i18n', () => {
+  const locales = fs.readdirSync(path.join(__dirname, '../i18n/locales'))
+    .map(file => path.basename(file, path.extname(file)))
+    .filter(name => name !== 'index');
+
+  it('should register every catalog file', () => {
+    expect([...LOCALES].sort()).toEqual([...locales].sort());
+  });
+
+  it.each(locales)('should define every message key in the %s catalog', locale => {
+    const catalog = loadCatalog(locale);
+
+    expect(Object.keys(catalog).sort()).toEqual(Object.keys(ja).sort());
+    Object.values(catalog).forEach(message => expect(message).not.toBe(''));
+  });
+
+  it('should keep the same placeholders across catalogs', () => {
+    const placeholders = (message: string) => (message.match(/\{\w+\}/g) ?? []).sort();
+
+    locales.map(loadCatalog).forEach(catalog => {
+      (Object.keys(ja) as Array<keyof typeof ja>).forEach(key => {
+        expect([key, placeholders(catalog[key])]).toEqual([key, placeholders(ja[key])]);
+      });
+    });
+  });
+
+  it('should fill placeholders and leave unknown ones as written', () => {
+    const translator = new Translator('en');
+
+    expect(translator.t('approval.decidedBy', { user: 'alice' })).toBe('Handled by: alice');
+    expect(translator.t('approval.decidedBy')).toBe('Handled by: {user}');
+  });
+
+  it('should format numbers and currencies for the locale', () => {
+    expect(new Translator('en').formatNumber(1234567)).toBe('1,234,567');
+    expect(new Translator('en').formatMoney(1.5)).toBe('$1.50');
+    expect(new Translator('ja').formatMoney(1000, 'JPY')).toBe('￥1,000');
+    expect(new Translator('en').formatMoney(0.1234, 'USD', 4)).toBe('$0.1234');
+  });
+
+  it('should fall back to Japanese for unknown or malformed locales', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(new Translator('fr').t('batch.header.success')).toBe('✅ バッチ処理完了');
+    expect(new Translator('../ja').t('batch.header.success')).toBe('✅ バッチ処理完了');
+  });
+});
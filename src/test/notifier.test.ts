@@ -0,0 +1,342 @@
+import http from 'http';
+import net from 'net';
+import { AddressInfo } from 'net';
+import nodemailer from 'nodemailer';
+import { NotificationRouter, Notifier, SlackNotifier, routeNotification, buildShopFailureDigests, loadRoutesFromEnv, createNotifier } from '../services/notifier';
+import { WebhookNotifier } from '../services/webhookNotifier';
+import { EmailNotifier, formatNotificationEmail } from '../services/emailNotifier';
+import { SlackService } from '../services/slack';
+import { Translator } from '../i18n';
+import { BatchResult, DailyBillingResult, Notification, ShopBillingResult } from '../types/billing';
+
+interface StubRequest {
+  path: string;
+  body: string;
+}
+
+// Local HTTP server that records every request and answers with the given JSON
+async function startHttpStub(response: object): Promise<{ url: string; requests: StubRequest[]; close: () => Promise<void> }> {
+  const requests: StubRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      requests.push({ path: req.url ?? '', body });
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(response));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+// Minimal SMTP server: accepts every command and records the DATA section of each message
+async function startSmtpStub(): Promise<{ port: number; messages: string[]; close: () => Promise<void> }> {
+  const messages: string[] = [];
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let data: string | null = null;
+    socket.write('220 localhost ESMTP stub\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        if (data !== null) {
+          if (line === '.') {
+            messages.push(data);
+            data = null;
+            socket.write('250 queued\r\n');
+          } else {
+            data += `${line}\n`;
+          }
+        } else if (/^(EHLO|HELO)/i.test(line)) {
+          socket.write('250-localhost\r\n250 OK\r\n');
+        } else if (/^DATA/i.test(line)) {
+          data = '';
+          socket.write('354 end with .\r\n');
+        } else if (/^QUIT/i.test(line)) {
+          socket.end('221 bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return {
+    port: (server.address() as AddressInfo).port,
+    messages,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+describe('Notifiers', () => {
+  const shopResult = (overrides: Partial<ShopBillingResult>): ShopBillingResult => ({
+    shop: 'shop-a.myshopify.com',
+    pageViews: 1000,
+    billingAmount: 1.5,
+    bigQuerySaved: true,
+    shopifyStatus: 'success',
+    ...overrides,
+  });
+
+  const batchResult = (shopResults: ShopBillingResult[]): BatchResult => {
+    const billingDetails: DailyBillingResult = {
+      success: true,
+      targetDate: '2024-01-15',
+      skipped: false,
+      activeSessions: shopResults.length,
+      shopsWithPageViews: shopResults.length,
+      billingRecordsGenerated: shopResults.length,
+      totalPageViews: 1000 * shopResults.length,
+      totalAmount: 1.5 * shopResults.length,
+      shopResults,
+    };
+    return { success: true, message: 'Billing process completed successfully', timestamp: '2024-01-16T00:00:00.000Z', billingDetails };
+  };
+
+  const failed = shopResult({
+    shop: 'shop-b.myshopify.com',
+    shopifyStatus: 'failed',
+    errorCategory: 'subscription_missing',
+    shopifyError: 'No active subscription',
+  });
+
+  describe('routeNotification', () => {
+    it('should send clean runs to the summary route', () => {
+      expect(routeNotification({ kind: 'batch_result', result: batchResult([shopResult({})]) })).toBe('summary');
+    });
+
+    it('should send failures and holds to on-call', () => {
+      const held = shopResult({ shopifyStatus: 'held', holdReason: 'spike' });
+
+      expect(routeNotification({ kind: 'batch_result', result: batchResult([shopResult({}), failed]) })).toBe('oncall');
+      expect(routeNotification({ kind: 'batch_result', result: batchResult([held]) })).toBe('oncall');
+      expect(routeNotification({
+        kind: 'batch_result',
+        result: { success: false, message: 'failed', timestamp: '2024-01-16T00:00:00.000Z' },
+      })).toBe('oncall');
+    });
+
+    it('should send approval requests to on-call', () => {
+      expect(routeNotification({ kind: 'approval_request', records: [] })).toBe('oncall');
+    });
+
+    it('should send failure digests to customer success', () => {
+      const [digest] = buildShopFailureDigests(batchResult([failed]));
+
+      expect(routeNotification({ kind: 'shop_failure_digest', digest })).toBe('customer_success');
+    });
+  });
+
+  describe('buildShopFailureDigests', () => {
+    it('should list only failed shops, per billing date', () => {
+      expect(buildShopFailureDigests(batchResult([shopResult({}), failed]))).toEqual([{
+        targetDate: '2024-01-15',
+        shops: [{ shop: 'shop-b.myshopify.com', billingAmount: 1.5, errorCategory: 'subscription_missing', error: 'No active subscription' }],
+      }]);
+      expect(buildShopFailureDigests(batchResult([shopResult({})]))).toEqual([]);
+    });
+  });
+
+  describe('loadRoutesFromEnv', () => {
+    it('should split comma-separated Slack channels into separate targets', () => {
+      expect(loadRoutesFromEnv({ SLACK_CHANNEL_IDS: 'C111, C222' })).toEqual({
+        summary: ['C111', 'C222'],
+        oncall: ['C111', 'C222'],
+        customer_success: [],
+      });
+    });
+
+    it('should use explicit targets per route', () => {
+      expect(loadRoutesFromEnv({
+        SLACK_CHANNEL_IDS: 'C111',
+        NOTIFY_ONCALL: 'slack:C999,webhook:https://example.com/hook',
+        NOTIFY_CUSTOMER_SUCCESS: 'email:cs@example.com',
+      })).toEqual({
+        summary: ['C111'],
+        oncall: ['slack:C999', 'webhook:https://example.com/hook'],
+        customer_success: ['email:cs@example.com'],
+      });
+    });
+  });
+
+  describe('createNotifier', () => {
+    beforeEach(() => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      delete process.env.SMTP_HOST;
+    });
+
+    it('should build a notifier for each scheme', () => {
+      process.env.SLACK_BOT_TOKEN = 'xoxb-test';
+      process.env.SMTP_HOST = 'smtp.example.com';
+
+      expect(createNotifier('C111')).toBeInstanceOf(SlackNotifier);
+      expect(createNotifier('webhook:https://example.com/hook')).toBeInstanceOf(WebhookNotifier);
+      expect(createNotifier('email:cs@example.com')).toBeInstanceOf(EmailNotifier);
+    });
+
+    it('should log and skip targets that cannot be used', () => {
+      expect(createNotifier('teams:https://example.com/hook')).toBeNull();
+      expect(createNotifier('webhook:')).toBeNull();
+      expect(createNotifier('email:cs@example.com')).toBeNull();
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('SMTP_HOST is not set'));
+    });
+
+    it('should keep the valid targets when the router loads a bad one', () => {
+      process.env.NOTIFY_ONCALL = 'teams:x,webhook:https://example.com/hook,email:ops@example.com';
+      try {
+        const router = new NotificationRouter();
+        const routes = (router as unknown as { routes: Record<string, Notifier[]> }).routes;
+
+        expect(routes.oncall.map(notifier => notifier.target)).toEqual(['webhook:https://example.com/hook']);
+      } finally {
+        delete process.env.NOTIFY_ONCALL;
+      }
+    });
+  });
+
+  describe('NotificationRouter', () => {
+    const recorder = (target: string, fail = false): Notifier & { sent: Notification[] } => {
+      const sent: Notification[] = [];
+      return {
+        target,
+        sent,
+        send: async notification => {
+          if (fail) {
+            throw new Error('unreachable');
+          }
+          sent.push(notification);
+        },
+      };
+    };
+
+    it('should deliver the report to on-call and the digest to customer success', async () => {
+      const summary = recorder('summary');
+      const oncall = recorder('oncall');
+      const broken = recorder('broken', true);
+      const customerSuccess = recorder('customer_success');
+      const router = new NotificationRouter({ summary: [summary], oncall: [broken, oncall], customer_success: [customerSuccess] });
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await router.notifyBatchResult(batchResult([shopResult({}), failed]));
+
+      expect(summary.sent).toEqual([]);
+      expect(oncall.sent.map(n => n.kind)).toEqual(['batch_result']);
+      expect(customerSuccess.sent.map(n => n.kind)).toEqual(['shop_failure_digest']);
+    });
+  });
+
+  describe('WebhookNotifier', () => {
+    it('should post the notification as JSON', async () => {
+      const stub = await startHttpStub({ ok: true });
+      try {
+        await new WebhookNotifier(`${stub.url}billing`).send({ kind: 'batch_result', result: batchResult([failed]) });
+
+        expect(stub.requests).toHaveLength(1);
+        expect(stub.requests[0].path).toBe('/billing');
+        const body = JSON.parse(stub.requests[0].body);
+        expect(body.kind).toBe('batch_result');
+        expect(body.result.billingDetails.shopResults[0].shop).toBe('shop-b.myshopify.com');
+      } finally {
+        await stub.close();
+      }
+    });
+  });
+
+  describe('formatNotificationEmail', () => {
+    it('should write the email in the locale of the translator', () => {
+      const notification: Notification = { kind: 'batch_result', result: batchResult([failed]) };
+
+      const ja = formatNotificationEmail(notification);
+      const en = formatNotificationEmail(notification, new Translator('en'));
+
+      expect(ja.subject).toBe('[請求バッチ] 完了 2024-01-15');
+      expect(ja.text).toContain('  失敗 shop-b.myshopify.com $1.50 [subscription_missing] No active subscription');
+      expect(en.subject).toBe('[Billing batch] Completed 2024-01-15');
+      expect(en.text).toContain('Status: Succeeded');
+      expect(en.text).toContain('  Failed shop-b.myshopify.com $1.50 [subscription_missing] No active subscription');
+    });
+  });
+
+  describe('EmailNotifier', () => {
+    it('should send the digest over SMTP', async () => {
+      const stub = await startSmtpStub();
+      try {
+        const transport = nodemailer.createTransport({ host: '127.0.0.1', port: stub.port, secure: false, ignoreTLS: true });
+        const [digest] = buildShopFailureDigests(batchResult([failed]));
+
+        await new EmailNotifier('cs@example.com', { transport, from: 'billing@example.com' }).send({ kind: 'shop_failure_digest', digest });
+        transport.close();
+
+        expect(stub.messages).toHaveLength(1);
+        expect(stub.messages[0]).toContain('To: cs@example.com');
+        expect(stub.messages[0]).toContain('shop-b.myshopify.com');
+      } finally {
+        await stub.close();
+      }
+    });
+  });
+
+  describe('SlackNotifier', () => {
+    it('should post to its own channel through the Web API', async () => {
+      process.env.SLACK_BOT_TOKEN = 'xoxb-test';
+      const stub = await startHttpStub({ ok: true, ts: '1700000000.000100' });
+      try {
+        const slackService = new SlackService({ channelId: 'C222', apiUrl: stub.url });
+        const [digest] = buildShopFailureDigests(batchResult([failed]));
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+        await new SlackNotifier(slackService, 'C222').send({ kind: 'shop_failure_digest', digest });
+
+        expect(stub.requests).toHaveLength(1);
+        expect(stub.requests[0].path).toBe('/chat.postMessage');
+        expect(new URLSearchParams(stub.requests[0].body).get('channel')).toBe('C222');
+      } finally {
+        await stub.close();
+      }
+    });
+
+    it('should post approval requests with buttons to its own channel', async () => {
+      process.env.SLACK_BOT_TOKEN = 'xoxb-test';
+      const stub = await startHttpStub({ ok: true, ts: '1700000000.000100' });
+      try {
+        const slackService = new SlackService({ channelId: 'C333', apiUrl: stub.url });
+
+        await new SlackNotifier(slackService, 'C333').send({
+          kind: 'approval_request',
+          records: [{
+            shop: 'shop-a.myshopify.com',
+            billing_date: '2024-01-15',
+            page_views: 5000000,
+            billing_amount: 50,
+            pricing_plan_id: 'standard',
+            pricing_tier: 0,
+            raw_amount: 50,
+            carry_over_consumed: 0,
+            carry_over_balance: 0,
+            shopify_billing_status: 'awaiting_approval',
+            approval_threshold: 20,
+          }],
+        });
+
+        expect(stub.requests).toHaveLength(1);
+        const body = new URLSearchParams(stub.requests[0].body);
+        expect(body.get('channel')).toBe('C333');
+        expect(body.get('blocks')).toContain('approve_charge');
+      } finally {
+        await stub.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { DEFAULT_PRICING_PLAN, applyCarryOver, calculateTieredAmount } from '../services/pricing';
+import { PricingPlan } from '../types/billing';
+
+describe('calculateTieredAmount', () => {
+  const volumePlan: PricingPlan = {
+    plan_id: 'volume-2024',
+    name: 'Volume',
+    tiers: [
+      { up_to: 1_000_000, rate_per_million: 0 },
+      { up_to: 50_000_000, rate_per_million: 10 },
+      { up_to: null, rate_per_million: 6 },
+    ],
+  };
+
+  it('should keep the default plan linear at $10 per million', () => {
+    expect(calculateTieredAmount(DEFAULT_PRICING_PLAN, 0, 2_500_000)).toEqual({ amount: 25, tierIndex: 0 });
+    expect(calculateTieredAmount(DEFAULT_PRICING_PLAN, 80_000_000, 1_000_000)).toEqual({ amount: 10, tierIndex: 0 });
+  });
+
+  it('should not charge page views inside the free tier', () => {
+    expect(calculateTieredAmount(volumePlan, 0, 800_000)).toEqual({ amount: 0, tierIndex: 0 });
+  });
+
+  it('should split a day that crosses a tier boundary', () => {
+    // 200k free, then 300k at $10/M
+    const result = calculateTieredAmount(volumePlan, 800_000, 500_000);
+    expect(result.amount).toBeCloseTo(3);
+    expect(result.tierIndex).toBe(1);
+  });
+
+  it('should apply the discounted rate once month-to-date volume passes 50M', () => {
+    // 1M at $10/M, then 2M at $6/M
+    const result = calculateTieredAmount(volumePlan, 49_000_000, 3_000_000);
+    expect(result.amount).toBeCloseTo(22);
+    expect(result.tierIndex).toBe(2);
+  });
+
+  it('should report the current tier for a day without page views', () => {
+    expect(calculateTieredAmount(volumePlan, 60_000_000, 0)).toEqual({ amount: 0, tierIndex: 2 });
+  });
+});
+
+describe('applyCarryOver', () => {
+  it('should carry amounts below the minimum charge to the next day', () => {
+    // 400 page views at $10/M
+    expect(applyCarryOver(0.004, 0, 0.5)).toEqual({ billingAmount: 0, carryOverConsumed: 0, carryOverBalance: 0.004 });
+    expect(applyCarryOver(0.004, 0.004, 0.5)).toEqual({ billingAmount: 0, carryOverConsumed: 0, carryOverBalance: 0.008 });
+  });
+
+  it('should bill whole cents once the balance reaches the minimum and keep the sub-cent remainder', () => {
+    expect(applyCarryOver(0.1234, 0.4, 0.5)).toEqual({
+      billingAmount: 0.52,
+      carryOverConsumed: 0.4,
+      carryOverBalance: 0.0034,
+    });
+  });
+
+  it('should not lose cents to floating point rounding', () => {
+    expect(applyCarryOver(0.29, 0, 0.01).billingAmount).toBe(0.29);
+  });
+});
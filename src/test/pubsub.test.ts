@@ -0,0 +1,114 @@
+import { PubSub } from '@google-cloud/pubsub';
+import { PubSubService, decodeMessage } from '../services/pubsub';
+import { ChargeJob } from '../types/billing';
+
+const job = (shop: string): ChargeJob => ({
+  run_id: 'run-1',
+  billing_date: '2024-01-01',
+  expected_jobs: 2,
+  record: {
+    shop,
+    billing_date: '2024-01-01',
+    page_views: 1000000,
+    billing_amount: 10,
+    pricing_plan_id: 'standard',
+    pricing_tier: 0,
+    raw_amount: 10,
+    carry_over_consumed: 0,
+    carry_over_balance: 0,
+  },
+});
+
+describe('PubSubService', () => {
+  describe('publishChargeJobs', () => {
+    it('should publish one message per shop', async () => {
+      const publishMessage = jest.fn().mockResolvedValue('message-id');
+      const service = new PubSubService();
+      jest.spyOn((service as unknown as { pubsub: PubSub }).pubsub, 'topic')
+        .mockReturnValue({ publishMessage } as unknown as ReturnType<PubSub['topic']>);
+
+      await service.publishChargeJobs([job('shop-a'), job('shop-b')]);
+
+      expect(publishMessage).toHaveBeenCalledTimes(2);
+      expect(publishMessage.mock.calls[0][0]).toEqual({
+        json: job('shop-a'),
+        attributes: { runId: 'run-1', billingDate: '2024-01-01', shop: 'shop-a' },
+      });
+    });
+  });
+
+  describe('publishApprovalDecision', () => {
+    it('should publish the decision to the approval decisions topic', async () => {
+      const publishMessage = jest.fn().mockResolvedValue('message-id');
+      const service = new PubSubService();
+      const topic = jest.spyOn((service as unknown as { pubsub: PubSub }).pubsub, 'topic')
+        .mockReturnValue({ publishMessage } as unknown as ReturnType<PubSub['topic']>);
+      const decision = {
+        request: { shop: 'shop-a', billing_date: '2024-01-01', channel: 'C123', ts: '1.2' },
+        amount: 0,
+        user: 'tanaka (U123)',
+      };
+
+      await service.publishApprovalDecision(decision);
+
+      expect(topic).toHaveBeenCalledWith('billing-approval-decisions');
+      expect(publishMessage).toHaveBeenCalledWith({
+        json: decision,
+        attributes: { shop: 'shop-a', billingDate: '2024-01-01' },
+      });
+    });
+  });
+
+  describe('decodeMessage', () => {
+    it('should decode the base64 JSON payload of a push message', () => {
+      const data = { message: { data: Buffer.from(JSON.stringify(job('shop-a'))).toString('base64') } };
+
+      expect(decodeMessage<ChargeJob>(data)).toEqual(job('shop-a'));
+    });
+
+    it('should reject messages without data', () => {
+      expect(() => decodeMessage({ message: {} })).toThrow('Pub/Sub message has no data');
+    });
+  });
+
+  // Runs only against the local emulator: PUBSUB_EMULATOR_HOST=localhost:8085 npm test
+  const describeWithEmulator = process.env.PUBSUB_EMULATOR_HOST ? describe : describe.skip;
+
+  describeWithEmulator('with the Pub/Sub emulator', () => {
+    const topicName = `billing-charge-jobs-test-${Date.now()}`;
+
+    beforeAll(() => {
+      process.env.CHARGE_JOBS_TOPIC = topicName;
+    });
+
+    afterAll(() => {
+      delete process.env.CHARGE_JOBS_TOPIC;
+    });
+
+    it('should deliver each published charge job to a subscriber', async () => {
+      const pubsub = new PubSub({ projectId: process.env.GOOGLE_CLOUD_PROJECT || 'growth-force-project' });
+      const [topic] = await pubsub.createTopic(topicName);
+      const [subscription] = await topic.createSubscription(`${topicName}-sub`);
+
+      await new PubSubService().publishChargeJobs([job('shop-a'), job('shop-b')]);
+
+      const received = await new Promise<ChargeJob[]>((resolve, reject) => {
+        const jobs: ChargeJob[] = [];
+        const timer = setTimeout(() => reject(new Error('Timed out waiting for messages')), 10000);
+        subscription.on('message', message => {
+          message.ack();
+          jobs.push(decodeMessage<ChargeJob>({ message: { data: message.data.toString('base64') } }));
+          if (jobs.length === 2) {
+            clearTimeout(timer);
+            resolve(jobs);
+          }
+        });
+      });
+      await subscription.close();
+      await subscription.delete();
+      await topic.delete();
+
+      expect(received.map(item => item.record.shop).sort()).toEqual(['shop-a', 'shop-b']);
+    });
+  });
+});
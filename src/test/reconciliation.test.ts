@@ -0,0 +1,83 @@
+import { findDiscrepancies } from '../services/reconciliation';
+import { BillingRecord, ShopifyUsageRecord } from '../types/billing';
+
+describe('findDiscrepancies', () => {
+  const shop = 'shop-a.myshopify.com';
+
+  const billingRecord = (overrides: Partial<BillingRecord>): BillingRecord => ({
+    shop,
+    billing_date: '2024-03-01',
+    page_views: 1000,
+    billing_amount: 1.5,
+    pricing_plan_id: 'standard',
+    pricing_tier: 1,
+    raw_amount: 1.5,
+    carry_over_consumed: 0,
+    carry_over_balance: 0,
+    shopify_charge_id: 'gid://shopify/AppUsageRecord/1',
+    shopify_billing_status: 'success',
+    shopify_charged_amount: 1.5,
+    shopify_currency_code: 'USD',
+    ...overrides,
+  });
+
+  const usageRecord = (overrides: Partial<ShopifyUsageRecord>): ShopifyUsageRecord => ({
+    id: 'gid://shopify/AppUsageRecord/1',
+    createdAt: '2024-03-01T16:00:00Z',
+    description: 'Web pixel usage charges - 2024-03-01',
+    amount: 1.5,
+    currencyCode: 'USD',
+    billingDate: '2024-03-01',
+    ...overrides,
+  });
+
+  it('should report nothing when charge IDs and amounts match', () => {
+    expect(findDiscrepancies(shop, [billingRecord({})], [usageRecord({})])).toEqual([]);
+  });
+
+  it('should report charges recorded in BigQuery that Shopify does not have', () => {
+    const findings = findDiscrepancies(shop, [billingRecord({})], []);
+
+    expect(findings).toEqual([expect.objectContaining({
+      finding_type: 'missing_in_shopify',
+      billing_date: '2024-03-01',
+      shopify_charge_id: 'gid://shopify/AppUsageRecord/1',
+      expected_amount: 1.5,
+    })]);
+  });
+
+  it('should report Shopify usage records with no matching charge in BigQuery', () => {
+    const findings = findDiscrepancies(
+      shop,
+      [billingRecord({ shopify_charge_id: undefined, shopify_billing_status: 'failed' })],
+      [usageRecord({})]
+    );
+
+    expect(findings).toEqual([expect.objectContaining({
+      finding_type: 'missing_in_bigquery',
+      shopify_charge_id: 'gid://shopify/AppUsageRecord/1',
+      actual_amount: 1.5,
+    })]);
+  });
+
+  it('should report amount mismatches, comparing the Shopify-side amount and currency', () => {
+    const findings = findDiscrepancies(
+      shop,
+      [billingRecord({ shopify_charged_amount: 200, shopify_currency_code: 'JPY' })],
+      [usageRecord({ amount: 210, currencyCode: 'JPY' })]
+    );
+
+    expect(findings).toEqual([expect.objectContaining({
+      finding_type: 'amount_mismatch',
+      expected_amount: 200,
+      actual_amount: 210,
+      currency_code: 'JPY',
+    })]);
+  });
+
+  it('should ignore sub-unit rounding differences', () => {
+    const findings = findDiscrepancies(shop, [billingRecord({ shopify_charged_amount: 1.504 })], [usageRecord({})]);
+
+    expect(findings).toEqual([]);
+  });
+});
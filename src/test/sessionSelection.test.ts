@@ -0,0 +1,58 @@
+import { selectSessionsPerShop } from '../services/sessionSelection';
+import { ShopifySession } from '../types/billing';
+
+describe('selectSessionsPerShop', () => {
+  const session = (overrides: Partial<ShopifySession>): ShopifySession => ({
+    session_id: 'offline_shop-a.myshopify.com',
+    shop: 'shop-a.myshopify.com',
+    accessToken: 'token',
+    created_at: '2024-01-01 00:00:00+00',
+    updated_at: '2024-01-01 00:00:00+00',
+    is_online: false,
+    ...overrides,
+  });
+
+  it('should keep a single session per shop', () => {
+    const { sessions, discarded } = selectSessionsPerShop([
+      session({ session_id: 'a' }),
+      session({ session_id: 'b', shop: 'shop-b.myshopify.com' }),
+    ]);
+
+    expect(sessions.map(s => s.session_id)).toEqual(['a', 'b']);
+    expect(discarded).toEqual([]);
+  });
+
+  it('should prefer the most recently updated offline token and keep older ones as fallbacks', () => {
+    const { sessions, fallbacks, discarded } = selectSessionsPerShop([
+      session({ session_id: 'old', updated_at: '2024-01-01 00:00:00+00' }),
+      session({ session_id: 'new', updated_at: '2024-03-01 00:00:00+00' }),
+      session({ session_id: 'middle', updated_at: '2024-02-01 00:00:00+00' }),
+    ]);
+
+    expect(sessions.map(s => s.session_id)).toEqual(['new']);
+    expect(fallbacks.get('shop-a.myshopify.com')?.map(s => s.session_id)).toEqual(['middle', 'old']);
+    expect(discarded).toEqual([
+      { session_id: 'middle', shop: 'shop-a.myshopify.com', reason: 'duplicate', kept_session_id: 'new' },
+      { session_id: 'old', shop: 'shop-a.myshopify.com', reason: 'duplicate', kept_session_id: 'new' },
+    ]);
+  });
+
+  it('should never bill with online tokens', () => {
+    const { sessions, discarded } = selectSessionsPerShop([
+      session({ session_id: 'online', is_online: true, updated_at: '2024-03-01 00:00:00+00' }),
+      session({ session_id: 'offline' }),
+    ]);
+
+    expect(sessions.map(s => s.session_id)).toEqual(['offline']);
+    expect(discarded).toEqual([{ session_id: 'online', shop: 'shop-a.myshopify.com', reason: 'online' }]);
+  });
+
+  it('should treat shops with and without the myshopify.com suffix as the same shop', () => {
+    const { sessions } = selectSessionsPerShop([
+      session({ session_id: 'a', shop: 'shop-a' }),
+      session({ session_id: 'b', shop: 'shop-a.myshopify.com', updated_at: '2024-02-01 00:00:00+00' }),
+    ]);
+
+    expect(sessions.map(s => s.session_id)).toEqual(['b']);
+  });
+});
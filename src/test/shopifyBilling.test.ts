@@ -3,7 +3,8 @@ jest.mock('p-limit', () => {
   return jest.fn(() => (fn: () => Promise<unknown>) => fn());
 });
 
-import { ShopifyBillingService } from '../services/shopifyBilling';
+import axios from 'axios';
+import { ShopifyBillingService, ShopifyChargeError, buildIdempotencyKey } from '../services/shopifyBilling';
 import { ShopifySession } from '../types/billing';
 
 describe('ShopifyBillingService', () => {
@@ -91,6 +92,311 @@ describe('ShopifyBillingService', () => {
     });
   });
 
+  describe('idempotency', () => {
+    it('should build the same key for the same shop and billing date', () => {
+      expect(buildIdempotencyKey('test-shop', '2024-01-01')).toBe(
+        buildIdempotencyKey('test-shop.myshopify.com', '2024-01-01')
+      );
+      expect(buildIdempotencyKey('test-shop', '2024-01-01')).not.toBe(
+        buildIdempotencyKey('test-shop', '2024-01-02')
+      );
+    });
+
+    it('should send the idempotency key and billing date with the usage charge', async () => {
+      const session: ShopifySession = {
+        session_id: 'test-1',
+        shop: 'test-shop.myshopify.com',
+        accessToken: 'test-token',
+        created_at: '2024-01-01',
+        updated_at: '2024-01-01',
+      };
+
+      const makeGraphQLRequest = jest.spyOn(service as unknown as { makeGraphQLRequest: typeof service['makeGraphQLRequest'] }, 'makeGraphQLRequest')
+        .mockResolvedValueOnce({
+          data: {
+            currentAppInstallation: {
+              activeSubscriptions: [
+                { lineItems: [{ id: 'line-item-1', plan: { pricingDetails: { __typename: 'AppUsagePricing' } } }] },
+              ],
+            },
+          },
+        })
+        .mockResolvedValueOnce({
+          data: { appUsageRecordCreate: { appUsageRecord: { id: 'charge-1' }, userErrors: [] } },
+        });
+
+      const results = await service.chargeShops([session], new Map([['test-shop.myshopify.com', 12.5]]), '2024-01-01');
+
+      expect(results[0]).toMatchObject({ status: 'success', chargeId: 'charge-1' });
+      expect(makeGraphQLRequest.mock.calls[1][2]).toMatchObject({
+        description: 'Web pixel usage charges - 2024-01-01',
+        idempotencyKey: buildIdempotencyKey('test-shop', '2024-01-01'),
+      });
+    });
+  });
+
+  describe('usage line item', () => {
+    const session: ShopifySession = {
+      session_id: 'test-1',
+      shop: 'test-shop.myshopify.com',
+      accessToken: 'test-token',
+      created_at: '2024-01-01',
+      updated_at: '2024-01-01',
+    };
+
+    const lineItemResponse = (cappedAmount: string, balanceUsed: string, currencyCode: string = 'USD') => ({
+      data: {
+        currentAppInstallation: {
+          activeSubscriptions: [
+            {
+              lineItems: [
+                {
+                  id: 'line-item-1',
+                  plan: {
+                    pricingDetails: {
+                      __typename: 'AppUsagePricing',
+                      cappedAmount: { amount: cappedAmount, currencyCode },
+                      balanceUsed: { amount: balanceUsed, currencyCode },
+                    },
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      },
+    });
+
+    it('should charge only the remaining headroom and report the rest as capped', async () => {
+      const makeGraphQLRequest = jest.spyOn(service as unknown as { makeGraphQLRequest: typeof service['makeGraphQLRequest'] }, 'makeGraphQLRequest')
+        .mockResolvedValueOnce(lineItemResponse('100.00', '95.50'))
+        .mockResolvedValueOnce({
+          data: { appUsageRecordCreate: { appUsageRecord: { id: 'charge-1' }, userErrors: [] } },
+        });
+
+      const results = await service.chargeShops([session], new Map([['test-shop.myshopify.com', 10]]), '2024-01-01');
+
+      expect(results[0]).toMatchObject({
+        status: 'capped',
+        chargeId: 'charge-1',
+        amount: 10,
+        chargedAmount: 4.5,
+        unbilledAmount: 5.5,
+        balanceUsed: 100,
+      });
+      expect(makeGraphQLRequest.mock.calls[1][2]).toMatchObject({ price: { amount: '4.50' } });
+    });
+
+    it('should not create a usage record when the cap is already reached', async () => {
+      const makeGraphQLRequest = jest.spyOn(service as unknown as { makeGraphQLRequest: typeof service['makeGraphQLRequest'] }, 'makeGraphQLRequest')
+        .mockResolvedValueOnce(lineItemResponse('100.00', '100.00'));
+
+      const results = await service.chargeShops([session], new Map([['test-shop.myshopify.com', 10]]), '2024-01-01');
+
+      expect(results[0]).toMatchObject({ status: 'capped', chargedAmount: 0, unbilledAmount: 10 });
+      expect(results[0].chargeId).toBeUndefined();
+      expect(makeGraphQLRequest).toHaveBeenCalledTimes(1);
+    });
+    it('should convert the USD price into the subscription currency', async () => {
+      const makeGraphQLRequest = jest.spyOn(service as unknown as { makeGraphQLRequest: typeof service['makeGraphQLRequest'] }, 'makeGraphQLRequest')
+        .mockResolvedValueOnce(lineItemResponse('100000', '0', 'JPY'))
+        .mockResolvedValueOnce({
+          data: { appUsageRecordCreate: { appUsageRecord: { id: 'charge-1' }, userErrors: [] } },
+        });
+
+      const results = await service.chargeShops(
+        [session],
+        new Map([['test-shop.myshopify.com', 10.25]]),
+        '2024-01-01',
+        { fxRates: new Map([['JPY', 149.8]]) }
+      );
+
+      expect(results[0]).toMatchObject({ status: 'success', amount: 10.25, chargedAmount: 1535, currencyCode: 'JPY', fxRate: 149.8 });
+      expect(makeGraphQLRequest.mock.calls[1][2]).toMatchObject({ price: { amount: '1535', currencyCode: 'JPY' } });
+    });
+
+    it('should look up the cap but not create a usage record in a dry run', async () => {
+      const makeGraphQLRequest = jest.spyOn(service as unknown as { makeGraphQLRequest: typeof service['makeGraphQLRequest'] }, 'makeGraphQLRequest')
+        .mockResolvedValueOnce(lineItemResponse('100.00', '95.50'));
+
+      const results = await service.chargeShops(
+        [session],
+        new Map([['test-shop.myshopify.com', 10]]),
+        '2024-01-01',
+        { dryRun: true }
+      );
+
+      expect(results[0]).toMatchObject({ status: 'capped', chargedAmount: 4.5, unbilledAmount: 5.5 });
+      expect(results[0].chargeId).toBeUndefined();
+      expect(makeGraphQLRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail without charging when no FX rate is configured for the currency', async () => {
+      const makeGraphQLRequest = jest.spyOn(service as unknown as { makeGraphQLRequest: typeof service['makeGraphQLRequest'] }, 'makeGraphQLRequest')
+        .mockResolvedValueOnce(lineItemResponse('1000', '0', 'EUR'));
+
+      const results = await service.chargeShops([session], new Map([['test-shop.myshopify.com', 10]]), '2024-01-01');
+
+      expect(results[0]).toMatchObject({ status: 'failed', error: 'No FX rate configured for EUR' });
+      expect(makeGraphQLRequest).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('error classification', () => {
+    const session: ShopifySession = {
+      session_id: 'test-1',
+      shop: 'test-shop.myshopify.com',
+      accessToken: 'test-token',
+      created_at: '2024-01-01',
+      updated_at: '2024-01-01',
+    };
+
+    const lineItemResponse = {
+      data: {
+        currentAppInstallation: {
+          activeSubscriptions: [
+            { lineItems: [{ id: 'line-item-1', plan: { pricingDetails: { __typename: 'AppUsagePricing' } } }] },
+          ],
+        },
+      },
+    };
+
+    beforeEach(() => {
+      (service as unknown as { retryDelay: number }).retryDelay = 0;
+    });
+
+    it('should not retry an invalid access token', async () => {
+      const makeGraphQLRequest = jest.spyOn(service as unknown as { makeGraphQLRequest: typeof service['makeGraphQLRequest'] }, 'makeGraphQLRequest')
+        .mockRejectedValue(new ShopifyChargeError('Invalid access token', 'auth'));
+
+      const results = await service.chargeShops([session], new Map([['test-shop.myshopify.com', 10]]), '2024-01-01');
+
+      expect(results[0]).toMatchObject({ status: 'failed', error: 'Invalid access token', errorCategory: 'auth' });
+      expect(makeGraphQLRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it('should classify an exceeded cap userError without retrying', async () => {
+      const makeGraphQLRequest = jest.spyOn(service as unknown as { makeGraphQLRequest: typeof service['makeGraphQLRequest'] }, 'makeGraphQLRequest')
+        .mockResolvedValueOnce(lineItemResponse)
+        .mockResolvedValueOnce({
+          data: {
+            appUsageRecordCreate: {
+              userErrors: [{ field: ['price'], message: 'Total price exceeds balance remaining' }],
+            },
+          },
+        });
+
+      const results = await service.chargeShops([session], new Map([['test-shop.myshopify.com', 10]]), '2024-01-01');
+
+      expect(results[0]).toMatchObject({ status: 'failed', errorCategory: 'cap_exceeded' });
+      expect(makeGraphQLRequest).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report a missing usage subscription as subscription_missing', async () => {
+      jest.spyOn(service as unknown as { makeGraphQLRequest: typeof service['makeGraphQLRequest'] }, 'makeGraphQLRequest')
+        .mockResolvedValueOnce({ data: { currentAppInstallation: { activeSubscriptions: [] } } });
+
+      const results = await service.chargeShops([session], new Map([['test-shop.myshopify.com', 10]]), '2024-01-01');
+
+      expect(results[0]).toMatchObject({ status: 'failed', errorCategory: 'subscription_missing' });
+    });
+
+    it('should retry transient errors and succeed', async () => {
+      const makeGraphQLRequest = jest.spyOn(service as unknown as { makeGraphQLRequest: typeof service['makeGraphQLRequest'] }, 'makeGraphQLRequest')
+        .mockRejectedValueOnce(new ShopifyChargeError('Shopify API error: 503', 'transient'))
+        .mockResolvedValueOnce(lineItemResponse)
+        .mockResolvedValueOnce({
+          data: { appUsageRecordCreate: { appUsageRecord: { id: 'charge-1' }, userErrors: [] } },
+        });
+
+      const results = await service.chargeShops([session], new Map([['test-shop.myshopify.com', 10]]), '2024-01-01');
+
+      expect(results[0]).toMatchObject({ status: 'success', chargeId: 'charge-1' });
+      expect(makeGraphQLRequest).toHaveBeenCalledTimes(3);
+    });
+
+    it('should fall back to an older session when the token is rejected', async () => {
+      const fallback: ShopifySession = { ...session, session_id: 'old-session', accessToken: 'old-token' };
+      const makeGraphQLRequest = jest.spyOn(service as unknown as { makeGraphQLRequest: typeof service['makeGraphQLRequest'] }, 'makeGraphQLRequest')
+        .mockRejectedValueOnce(new ShopifyChargeError('Invalid access token', 'auth', 401))
+        .mockResolvedValueOnce(lineItemResponse)
+        .mockResolvedValueOnce({
+          data: { appUsageRecordCreate: { appUsageRecord: { id: 'charge-1' }, userErrors: [] } },
+        });
+
+      const results = await service.chargeShops(
+        [session],
+        new Map([['test-shop.myshopify.com', 10]]),
+        '2024-01-01',
+        { fallbackSessions: new Map([['test-shop.myshopify.com', [fallback]]]) }
+      );
+
+      expect(results[0]).toMatchObject({ shop: 'test-shop.myshopify.com', status: 'success', sessionId: 'old-session' });
+      expect(makeGraphQLRequest.mock.calls[1][0]).toBe(fallback);
+    });
+
+    it('should treat unclassified exceptions as unknown and not retry them', async () => {
+      const makeGraphQLRequest = jest.spyOn(service as unknown as { makeGraphQLRequest: typeof service['makeGraphQLRequest'] }, 'makeGraphQLRequest')
+        .mockRejectedValue(new Error('Something unexpected'));
+
+      const results = await service.chargeShops([session], new Map([['test-shop.myshopify.com', 10]]), '2024-01-01');
+
+      expect(results[0]).toMatchObject({ status: 'failed', errorCategory: 'unknown' });
+      expect(makeGraphQLRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it.each([
+      ['ACCESS_DENIED', 'auth'],
+      ['INTERNAL_SERVER_ERROR', 'transient'],
+      ['MAX_COST_EXCEEDED', 'unknown'],
+      [undefined, 'unknown'],
+    ])('should classify a GraphQL error with code %s as %s', async (code, category) => {
+      jest.spyOn(axios, 'post').mockResolvedValueOnce({
+        data: { errors: [{ message: 'Request failed', extensions: code ? { code } : undefined }] },
+      });
+      const makeGraphQLRequest = (service as unknown as { makeGraphQLRequest: (session: ShopifySession, query: string) => Promise<unknown> })
+        .makeGraphQLRequest.bind(service);
+
+      await expect(makeGraphQLRequest(session, '{ shop { name } }')).rejects.toMatchObject({ category });
+    });
+  });
+
+  describe('checkShopStatus', () => {
+    const session: ShopifySession = {
+      session_id: 'test-1',
+      shop: 'test-shop.myshopify.com',
+      accessToken: 'test-token',
+      created_at: '2024-01-01',
+      updated_at: '2024-01-01',
+    };
+
+    it('should report a shop that answers as active', async () => {
+      jest.spyOn(service as unknown as { makeGraphQLRequest: typeof service['makeGraphQLRequest'] }, 'makeGraphQLRequest')
+        .mockResolvedValueOnce({ data: { shop: { name: 'Test Shop' } } });
+
+      expect(await service.checkShopStatus(session)).toBe('active');
+    });
+
+    it.each([
+      [401, 'uninstalled'],
+      [402, 'frozen'],
+      [423, 'frozen'],
+      [404, 'closed'],
+    ])('should classify HTTP %i as %s', async (httpStatus, status) => {
+      jest.spyOn(service as unknown as { makeGraphQLRequest: typeof service['makeGraphQLRequest'] }, 'makeGraphQLRequest')
+        .mockRejectedValueOnce(new ShopifyChargeError('API request failed', 'unknown', httpStatus));
+
+      expect(await service.checkShopStatus(session)).toBe(status);
+    });
+
+    it('should return null when the check itself failed', async () => {
+      jest.spyOn(service as unknown as { makeGraphQLRequest: typeof service['makeGraphQLRequest'] }, 'makeGraphQLRequest')
+        .mockRejectedValueOnce(new ShopifyChargeError('Shopify API error: 503', 'transient', 503));
+
+      expect(await service.checkShopStatus(session)).toBeNull();
+    });
+  });
+
   describe('testConnection', () => {
     it('should return false for invalid access token', async () => {
       const session: ShopifySession = {
@@ -0,0 +1,69 @@
+import { ShopifyThrottle, parseRetryAfter } from '../services/shopifyThrottle';
+
+describe('ShopifyThrottle', () => {
+  let now: number;
+  let sleeps: number[];
+  let throttle: ShopifyThrottle;
+
+  beforeEach(() => {
+    now = 0;
+    sleeps = [];
+    // Sleeping advances the fake clock so the bucket refills deterministically
+    throttle = new ShopifyThrottle(
+      () => now,
+      async (ms: number) => {
+        sleeps.push(ms);
+        now += ms;
+      }
+    );
+  });
+
+  it('should not delay shops without a reported throttle status', async () => {
+    await throttle.acquire('shop-a.myshopify.com', 50);
+
+    expect(sleeps).toEqual([]);
+  });
+
+  it('should wait for the bucket to refill at the restore rate', async () => {
+    throttle.update('shop-a.myshopify.com', { maximumAvailable: 1000, currentlyAvailable: 10, restoreRate: 50 });
+
+    await throttle.acquire('shop-a.myshopify.com', 110);
+
+    // 100 points short at 50 points per second
+    expect(sleeps).toEqual([2000]);
+  });
+
+  it('should reserve cost so back-to-back requests are spaced out', async () => {
+    throttle.update('shop-a.myshopify.com', { maximumAvailable: 100, currentlyAvailable: 20, restoreRate: 10 });
+
+    await throttle.acquire('shop-a.myshopify.com', 20);
+    await throttle.acquire('shop-a.myshopify.com', 20);
+
+    expect(sleeps).toEqual([2000]);
+  });
+
+  it('should keep buckets independent per shop', async () => {
+    throttle.update('shop-a.myshopify.com', { maximumAvailable: 1000, currentlyAvailable: 0, restoreRate: 50 });
+
+    await throttle.acquire('shop-b.myshopify.com', 100);
+
+    expect(sleeps).toEqual([]);
+  });
+
+  it('should honor Retry-After before sending again', async () => {
+    throttle.block('shop-a.myshopify.com', 3000);
+
+    await throttle.acquire('shop-a.myshopify.com');
+
+    expect(sleeps).toEqual([3000]);
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse delta-seconds and HTTP dates', () => {
+      expect(parseRetryAfter('2.0')).toBe(2000);
+      expect(parseRetryAfter('Thu, 01 Jan 1970 00:00:05 GMT', 1000)).toBe(4000);
+      expect(parseRetryAfter(undefined)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,170 @@
+const mockPostMessage = jest.fn();
+const mockUpdate = jest.fn();
+const mockUploadV2 = jest.fn();
+
+jest.mock('@slack/web-api', () => ({
+  WebClient: jest.fn().mockImplementation(() => ({
+    chat: { postMessage: mockPostMessage, update: mockUpdate },
+    files: { uploadV2: mockUploadV2 },
+  })),
+}));
+
+import axios from 'axios';
+import { SlackService, splitBlocksIntoMessages, formatShopResultsCsv } from '../services/slack';
+import { ShopBillingResult } from '../types/billing';
+
+describe('SlackService', () => {
+  const section = (text: string) => ({ type: 'section', text: { type: 'mrkdwn', text } });
+
+  const shopResult = (overrides: Partial<ShopBillingResult>): ShopBillingResult => ({
+    shop: 'shop-a.myshopify.com',
+    pageViews: 1000,
+    billingAmount: 1.5,
+    bigQuerySaved: true,
+    shopifyStatus: 'success',
+    ...overrides,
+  });
+
+  describe('splitBlocksIntoMessages', () => {
+    it('should keep at most 50 blocks per message', () => {
+      const blocks = Array.from({ length: 120 }, (_, i) => section(`block ${i}`));
+
+      const messages = splitBlocksIntoMessages(blocks);
+
+      expect(messages.map(message => message.length)).toEqual([50, 50, 20]);
+      expect(messages[2][19].text.text).toBe('block 119');
+    });
+
+    it('should split long section text at line breaks', () => {
+      const line = 'x'.repeat(1000);
+      const messages = splitBlocksIntoMessages([section([line, line, line, line].join('\n'))]);
+
+      expect(messages).toHaveLength(1);
+      expect(messages[0].map(block => block.text.text.length)).toEqual([2001, 2001]);
+    });
+
+    it('should cut a single line longer than the limit', () => {
+      const messages = splitBlocksIntoMessages([section('y'.repeat(7000))]);
+
+      expect(messages[0].map(block => block.text.text.length)).toEqual([3000, 3000, 1000]);
+    });
+  });
+
+  describe('formatShopResultsCsv', () => {
+    it('should include every shop with quoted error messages', () => {
+      const csv = formatShopResultsCsv([
+        shopResult({}),
+        shopResult({ shop: 'shop-b.myshopify.com', shopifyStatus: 'failed', errorCategory: 'transient', shopifyError: 'Timeout, retry later' }),
+      ]);
+      const rows = csv.trim().split('\r\n');
+
+      expect(rows).toHaveLength(3);
+      expect(rows[0].startsWith('shop,pageViews,billingAmount')).toBe(true);
+      expect(rows[2]).toContain('failed');
+      expect(rows[2]).toContain('"Timeout, retry later"');
+    });
+  });
+
+  describe('sendBatchResult', () => {
+    beforeEach(() => {
+      process.env.SLACK_BOT_TOKEN = 'xoxb-test';
+      process.env.SLACK_CHANNEL_IDS = 'C123';
+      mockPostMessage.mockReset().mockResolvedValue({ ok: true, ts: '1700000000.000100' });
+      mockUploadV2.mockReset().mockResolvedValue({ ok: true });
+    });
+
+    it('should post failures and the full CSV in the thread of the report', async () => {
+      const shopResults = Array.from({ length: 15 }, (_, i) => shopResult({ shop: `shop-${i}.myshopify.com` }));
+      shopResults.push(shopResult({ shop: 'shop-failed.myshopify.com', shopifyStatus: 'failed', errorCategory: 'auth', shopifyError: 'Invalid token' }));
+
+      await new SlackService().sendBatchResult({
+        success: true,
+        message: 'done',
+        timestamp: '2024-01-02T00:00:00.000Z',
+        billingDetails: {
+          targetDate: '2024-01-01',
+          skipped: false,
+          activeSessions: 16,
+          shopsWithPageViews: 16,
+          billingRecordsGenerated: 16,
+          totalPageViews: 16000,
+          totalAmount: 24,
+          shopResults,
+        },
+      });
+
+      expect(mockPostMessage).toHaveBeenCalledTimes(2);
+      expect(mockPostMessage.mock.calls[0][0].thread_ts).toBeUndefined();
+      expect(mockPostMessage.mock.calls[1][0]).toMatchObject({ thread_ts: '1700000000.000100', text: '請求失敗の内訳' });
+      expect(JSON.stringify(mockPostMessage.mock.calls[1][0].blocks)).toContain('認証エラー（1件）');
+      expect(mockUploadV2).toHaveBeenCalledWith(expect.objectContaining({
+        thread_ts: '1700000000.000100',
+        filename: 'billing-results-2024-01-01.csv',
+      }));
+      expect(mockUploadV2.mock.calls[0][0].content.trim().split('\r\n')).toHaveLength(17);
+    });
+
+    it('should write the report in the locale configured for the channel', async () => {
+      process.env.SLACK_CHANNEL_LOCALES = 'C123:en';
+      const shopResults = [shopResult({ shop: 'shop-failed.myshopify.com', shopifyStatus: 'failed', errorCategory: 'auth', shopifyError: 'Invalid token' })];
+
+      try {
+        await new SlackService({ locale: 'ja' }).sendBatchResult({
+          success: true,
+          message: 'done',
+          timestamp: '2024-01-02T00:00:00.000Z',
+          billingDetails: {
+            targetDate: '2024-01-01',
+            skipped: false,
+            activeSessions: 1200,
+            shopsWithPageViews: 1,
+            billingRecordsGenerated: 1,
+            totalPageViews: 1000,
+            totalAmount: 1.5,
+            shopResults,
+          },
+        });
+      } finally {
+        delete process.env.SLACK_CHANNEL_LOCALES;
+      }
+
+      const report = JSON.stringify(mockPostMessage.mock.calls[0][0].blocks);
+      expect(mockPostMessage.mock.calls[0][0].text).toBe('Billing batch completed');
+      expect(report).toContain('*Active sessions:*\\n1,200');
+      expect(report).toContain('Shopify Charge failed');
+      expect(report).toContain('$1.50');
+      expect(mockPostMessage.mock.calls[1][0].text).toBe('Failed charges by category');
+      expect(JSON.stringify(mockPostMessage.mock.calls[1][0].blocks)).toContain('Authentication error (1)');
+    });
+  });
+
+  describe('showApprovalProcessing', () => {
+    const request = { shop: 'shop-a.myshopify.com', billing_date: '2024-01-01', channel: 'C123', ts: '1.2' };
+
+    beforeEach(() => {
+      process.env.SLACK_BOT_TOKEN = 'xoxb-test';
+      mockUpdate.mockReset().mockResolvedValue({ ok: true });
+    });
+
+    it('should replace the buttons through the response URL of a button click', async () => {
+      const post = jest.spyOn(axios, 'post').mockResolvedValue({ status: 200 });
+
+      await new SlackService().showApprovalProcessing(request, 'tanaka (U123)', 'https://hooks.slack.com/actions/T1/1/abc');
+
+      expect(post).toHaveBeenCalledWith(
+        'https://hooks.slack.com/actions/T1/1/abc',
+        expect.objectContaining({ replace_original: true, text: '請求の承認処理: shop-a.myshopify.com' }),
+        expect.anything()
+      );
+      expect(JSON.stringify(post.mock.calls[0][1])).toContain('処理中');
+      expect(mockUpdate).not.toHaveBeenCalled();
+      post.mockRestore();
+    });
+
+    it('should update the message itself for modal submissions', async () => {
+      await new SlackService().showApprovalProcessing(request, 'tanaka (U123)');
+
+      expect(mockUpdate).toHaveBeenCalledWith(expect.objectContaining({ channel: 'C123', ts: '1.2' }));
+    });
+  });
+});
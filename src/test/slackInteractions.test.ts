@@ -0,0 +1,82 @@
+import { createHmac } from 'crypto';
+import {
+  verifySlackSignature,
+  parseInteraction,
+  APPROVE_ACTION_ID,
+  REJECT_ACTION_ID,
+  ADJUST_ACTION_ID,
+  ADJUST_MODAL_CALLBACK_ID,
+  ADJUST_AMOUNT_BLOCK_ID,
+  ADJUST_AMOUNT_ACTION_ID
+} from '../services/slackInteractions';
+
+describe('Slack interactions', () => {
+  describe('verifySlackSignature', () => {
+    const secret = 'signing-secret';
+    const body = 'payload=%7B%22type%22%3A%22block_actions%22%7D';
+    const timestamp = '1700000000';
+    const now = 1700000000 * 1000 + 30_000;
+    const sign = (value: string) => 'v0=' + createHmac('sha256', secret).update(`v0:${timestamp}:${value}`).digest('hex');
+
+    it('should accept a request signed with the signing secret', () => {
+      expect(verifySlackSignature(secret, timestamp, body, sign(body), now)).toBe(true);
+    });
+
+    it('should reject a tampered body or a wrong secret', () => {
+      expect(verifySlackSignature(secret, timestamp, body + 'x', sign(body), now)).toBe(false);
+      expect(verifySlackSignature('other-secret', timestamp, body, sign(body), now)).toBe(false);
+      expect(verifySlackSignature(secret, timestamp, body, undefined, now)).toBe(false);
+    });
+
+    it('should reject requests older than five minutes', () => {
+      expect(verifySlackSignature(secret, timestamp, body, sign(body), now + 10 * 60 * 1000)).toBe(false);
+    });
+  });
+
+  describe('parseInteraction', () => {
+    const value = JSON.stringify({ shop: 'shop-a.myshopify.com', billing_date: '2024-01-01' });
+    const blockAction = (actionId: string) => ({
+      type: 'block_actions',
+      trigger_id: 'trigger-1',
+      user: { id: 'U123', username: 'tanaka' },
+      actions: [{ action_id: actionId, value }],
+      channel: { id: 'C123' },
+      message: { ts: '1700000000.000100' },
+      response_url: 'https://hooks.slack.com/actions/T1/1/abc',
+    });
+
+    it('should read approve and reject decisions with the approver and the response URL', () => {
+      expect(parseInteraction(blockAction(APPROVE_ACTION_ID))).toEqual({
+        type: 'decision',
+        decision: 'approve',
+        user: 'tanaka (U123)',
+        responseUrl: 'https://hooks.slack.com/actions/T1/1/abc',
+        request: { shop: 'shop-a.myshopify.com', billing_date: '2024-01-01', channel: 'C123', ts: '1700000000.000100' },
+      });
+      expect(parseInteraction(blockAction(REJECT_ACTION_ID))).toMatchObject({ type: 'decision', decision: 'reject' });
+    });
+
+    it('should ask for an amount when adjusting', () => {
+      expect(parseInteraction(blockAction(ADJUST_ACTION_ID))).toMatchObject({ type: 'adjust_requested', triggerId: 'trigger-1' });
+    });
+
+    it('should read the adjusted amount from the modal submission', () => {
+      const interaction = parseInteraction({
+        type: 'view_submission',
+        user: { id: 'U123', username: 'tanaka' },
+        view: {
+          callback_id: ADJUST_MODAL_CALLBACK_ID,
+          private_metadata: JSON.stringify({ shop: 'shop-a.myshopify.com', billing_date: '2024-01-01', channel: 'C123', ts: '1.2' }),
+          state: { values: { [ADJUST_AMOUNT_BLOCK_ID]: { [ADJUST_AMOUNT_ACTION_ID]: { value: '12.5' } } } },
+        },
+      });
+
+      expect(interaction).toMatchObject({ type: 'adjust_submitted', amount: 12.5, request: { shop: 'shop-a.myshopify.com', ts: '1.2' } });
+    });
+
+    it('should ignore interactions it does not handle', () => {
+      expect(parseInteraction({ type: 'shortcut' })).toBeNull();
+      expect(parseInteraction(blockAction('other_action'))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { buildStatement, formatStatementCsv } from '../services/statement';
+import { BillingRecord, PricingPlan } from '../types/billing';
+
+describe('usage statements', () => {
+  const shop = 'shop-a.myshopify.com';
+
+  const record = (overrides: Partial<BillingRecord>): BillingRecord => ({
+    shop,
+    billing_date: '2024-03-01',
+    page_views: 100_000,
+    billing_amount: 1,
+    pricing_plan_id: 'volume',
+    pricing_tier: 0,
+    raw_amount: 1,
+    carry_over_consumed: 0,
+    carry_over_balance: 0,
+    shopify_charge_id: 'gid://shopify/AppUsageRecord/1',
+    shopify_billing_status: 'success',
+    shopify_charged_amount: 150,
+    shopify_currency_code: 'JPY',
+    ...overrides,
+  });
+
+  const plans: PricingPlan[] = [{
+    plan_id: 'volume',
+    name: 'Volume',
+    tiers: [
+      { up_to: 1_000_000, rate_per_million: 10 },
+      { up_to: null, rate_per_million: 5 },
+    ],
+  }];
+
+  it('should list each billing date with the tier rate and totals', () => {
+    const statement = buildStatement(shop, '2024-03', [
+      record({ billing_date: '2024-03-02', pricing_tier: 1, shopify_charge_id: 'gid://shopify/AppUsageRecord/2', shopify_charged_amount: 75, billing_amount: 0.5 }),
+      record({}),
+      record({ billing_date: '2024-03-03', shopify_billing_status: 'failed', shopify_charge_id: undefined }),
+    ], plans, '2024-04-01T00:00:00.000Z');
+
+    expect(statement.lines.map(line => [line.billing_date, line.rate_per_million, line.charged_amount])).toEqual([
+      ['2024-03-01', 10, 150],
+      ['2024-03-02', 5, 75],
+      ['2024-03-03', 10, 0],
+    ]);
+    expect(statement.total_page_views).toBe(300_000);
+    expect(statement.total_billing_amount).toBe(2.5);
+    expect(statement.total_charged_amount).toBe(225);
+    expect(statement.currency_code).toBe('JPY');
+  });
+
+  it('should fall back to the effective rate when the plan no longer exists', () => {
+    const statement = buildStatement(shop, '2024-03', [record({ raw_amount: 0.8 })], []);
+
+    expect(statement.lines[0].rate_per_million).toBeCloseTo(8);
+  });
+
+  it('should format CSV with a header, one row per date and a total row', () => {
+    const statement = buildStatement(shop, '2024-03', [
+      record({ shopify_billing_status: 'failed', shopify_charge_id: undefined, pricing_plan_id: 'custom, "legacy"' }),
+    ], plans);
+
+    const rows = formatStatementCsv(statement).split('\r\n');
+
+    expect(rows[0]).toBe('billing_date,page_views,pricing_plan_id,pricing_tier,rate_per_million,raw_amount,' +
+      'carry_over_consumed,billing_amount,charged_amount,currency_code,shopify_charge_id,shopify_billing_status');
+    expect(rows[1]).toBe('2024-03-01,100000,"custom, ""legacy""",0,10,1,0,1,0,JPY,,failed');
+    expect(rows[2]).toBe('total,100000,,,,,,1,0,USD,,');
+    expect(rows[3]).toBe('');
+  });
+});
@@ -4,6 +4,32 @@ export interface ShopifySession {
   accessToken: string;
   created_at: string;
   updated_at: string;
+  is_online?: boolean;
+}
+
+// A session row that is not used for billing: an online token, or an older offline token
+export interface DiscardedSession {
+  session_id: string;
+  shop: string;
+  reason: 'online' | 'duplicate';
+  kept_session_id?: string;
+}
+
+export type ShopStatus = 'active' | 'uninstalled' | 'frozen' | 'closed';
+
+export interface ShopStatusRecord {
+  shop: string;
+  status: ShopStatus;
+  // Session updated_at at the time of the check; a newer session (reinstall) triggers a re-check
+  session_updated_at?: string;
+  error_message?: string;
+  checked_at: string;
+}
+
+export interface ShopStatusChange {
+  shop: string;
+  previousStatus?: ShopStatus;
+  status: ShopStatus;
 }
 
 export interface PageViewEvent {
@@ -11,21 +37,154 @@ export interface PageViewEvent {
   event_count: number;
 }
 
+// How a failed Shopify charge should be handled; only `transient` failures are retried
+export type ChargeErrorCategory =
+  | 'transient'
+  | 'auth'
+  | 'subscription_missing'
+  | 'cap_exceeded'
+  | 'validation'
+  | 'unknown';
+
+export interface UsageChargeResult {
+  shop: string;
+  chargeId?: string;
+  status: 'success' | 'failed' | 'skipped' | 'already_charged' | 'capped';
+  error?: string;
+  errorCategory?: ChargeErrorCategory;
+  amount?: number;
+  // Session whose token made the charge, when a fallback had to be used
+  sessionId?: string;
+  // Set once the usage line item was read: what was actually charged and the cap state after the charge
+  chargedAmount?: number;
+  unbilledAmount?: number;
+  cappedAmount?: number;
+  balanceUsed?: number;
+  // Currency of the subscription line item; chargedAmount, unbilledAmount, cappedAmount and balanceUsed are in it
+  currencyCode?: string;
+  fxRate?: number;
+}
+
 export interface BillingRecord {
   shop: string;
   billing_date: string;
   page_views: number;
   billing_amount: number;
-  rate_per_million: number;
+  pricing_plan_id: string;
+  pricing_tier: number;
+  // Unrounded amount priced for the day; billing_amount is what gets charged after carry-over
+  raw_amount: number;
+  carry_over_consumed: number;
+  carry_over_balance: number;
   shopify_charge_id?: string;
-  shopify_billing_status?: 'pending' | 'success' | 'failed';
+  shopify_billing_status?: 'pending' | 'success' | 'failed' | 'capped' | 'held' | 'awaiting_approval' | 'rejected';
   shopify_error_message?: string;
+  shopify_error_category?: ChargeErrorCategory;
   shopify_processed_at?: string;
+  shopify_charged_amount?: number;
+  shopify_unbilled_amount?: number;
+  shopify_capped_amount?: number;
+  shopify_balance_used?: number;
+  // Shopify amounts above are in this currency; billing_amount stays in USD
+  shopify_currency_code?: string;
+  shopify_fx_rate?: number;
+  // IANA timezone whose calendar day the page views were counted over
+  billing_timezone?: string;
+  // Set when anomaly detection held the day instead of charging it
+  hold_reason?: string;
+  anomaly_baseline?: number;
+  // Set when the amount exceeded the shop's approval threshold and the charge waits for sign-off
+  approval_threshold?: number;
+  // On the row written when a held or awaiting-approval day is resolved: the amount originally
+  // parked, the decision and who made it
+  held_amount?: number;
+  hold_resolution?: HoldResolution;
+  hold_resolved_by?: string;
+}
+
+export type HoldResolution = 'released' | 'approved' | 'adjusted' | 'rejected';
+
+export interface ApprovalThreshold {
+  shop: string;
+  threshold_amount: number;
+}
+
+export interface ChargeLedgerEntry {
+  shop: string;
+  billing_date: string;
+  idempotency_key: string;
+  shopify_charge_id: string;
+  amount: number;
+  currency_code?: string;
+  charged_at: string;
+}
+
+export interface PricingTier {
+  // Month-to-date page view count up to which this rate applies; null for the last, unbounded tier
+  up_to: number | null;
+  rate_per_million: number;
+}
+
+export interface PricingPlan {
+  plan_id: string;
+  name: string;
+  tiers: PricingTier[];
+}
+
+export interface ShopPricingPlan extends PricingPlan {
+  shop: string;
+  effective_from: string;
+  effective_to?: string | null;
+}
+
+export interface PricingResult {
+  amount: number;
+  tierIndex: number;
+}
+
+export interface CarryOverResult {
+  billingAmount: number;
+  carryOverConsumed: number;
+  carryOverBalance: number;
+}
+
+export interface CarryOverBalance {
+  shop: string;
+  carry_over_balance: number;
+}
+
+export interface FxRate {
+  currency_code: string;
+  rate_per_usd: number;
+}
+
+export interface AnomalyConfig {
+  // Flag a day above this multiple of the shop's trailing median
+  multiplier: number;
+  // Flag any day above this many page views regardless of history (0 = disabled)
+  absoluteThreshold: number;
+  // With fewer days of history there is no baseline and only the absolute threshold applies
+  minBaselineDays: number;
+  // Days at or below this are never flagged by the multiplier, so small shops are not held for noise
+  minPageViews: number;
 }
 
 export interface BillingConfig {
-  ratePerMillion: number;
+  defaultPricingPlan: PricingPlan;
+  minimumChargeAmount: number;
   timezone: string;
+  // Count each shop's page views over its own day (Shopify ianaTimezone) instead of `timezone`
+  useShopTimezone: boolean;
+  shopStatusPreflight: boolean;
+  chargeFanout: boolean;
+  // Hold shops whose page views spike above their trailing baseline instead of charging them
+  anomalyDetection: boolean;
+  anomalyBaselineDays: number;
+  anomalyThresholds: AnomalyConfig;
+  // Charges above this USD amount wait for sign-off in Slack (0 = only shops with their own threshold)
+  approvalThreshold: number;
+  // Longest date range a backfill (or catch-up) may cover
+  maxBackfillDays: number;
   billingTime: string;
 }
 
@@ -33,9 +192,239 @@ export interface ShopBillingResult {
   shop: string;
   pageViews: number;
   billingAmount: number;
+  carryOverConsumed?: number;
   bigQuerySaved: boolean;
   bigQueryError?: string;
   shopifyChargeId?: string;
-  shopifyStatus: 'pending' | 'success' | 'failed' | 'skipped';
+  shopifyStatus: 'pending' | 'success' | 'failed' | 'skipped' | 'already_charged' | 'capped' | 'held' | 'awaiting_approval' | 'rejected';
   shopifyError?: string;
-}
\ No newline at end of file
+  holdReason?: string;
+  anomalyBaseline?: number;
+  approvalThreshold?: number;
+  errorCategory?: ChargeErrorCategory;
+  chargedAmount?: number;
+  unbilledAmount?: number;
+  cappedAmount?: number;
+  balanceUsed?: number;
+  currencyCode?: string;
+  fxRate?: number;
+}
+
+export interface BillingDateSummary {
+  billing_date: string;
+  shops: number;
+  total_page_views: number;
+  total_amount: number;
+  success_count: number;
+  failed_count: number;
+  capped_count: number;
+  pending_count: number;
+  held_count: number;
+  awaiting_approval_count: number;
+}
+
+export type BatchRunTrigger = 'scheduled' | 'manual' | 'test' | 'retry';
+
+// `expired` is never stored: it is how a `running` row past its lease (a crashed run) is reported
+export type BatchRunStatus = 'running' | 'succeeded' | 'failed' | 'skipped' | 'refused' | 'expired';
+
+// One processBilling / testBilling run for a billing date, stored in billing.batch_runs.
+// While `running` and before lease_expires_at, the row is the lock for its billing date.
+export interface BatchRun {
+  run_id: string;
+  trigger_type: BatchRunTrigger;
+  billing_date: string;
+  status: BatchRunStatus;
+  started_at: string;
+  lease_expires_at: string;
+  finished_at?: string;
+  billing_records?: number;
+  success_count?: number;
+  failed_count?: number;
+  capped_count?: number;
+  held_count?: number;
+  awaiting_approval_count?: number;
+  total_page_views?: number;
+  total_amount?: number;
+  // Set when charges were fanned out; their outcome is in billing.charge_completions
+  dispatched_jobs?: number;
+  // Shops left for a later run because the date had not ended in their timezone
+  deferred_shops?: number;
+  // Skip reason, error, or the run that held the lock
+  message?: string;
+}
+
+// The columns written when a run finishes
+export type BatchRunOutcome = Omit<BatchRun, 'trigger_type' | 'billing_date' | 'started_at' | 'lease_expires_at'>;
+
+export interface DailyBillingResult {
+  success: boolean;
+  targetDate: string;
+  skipped: boolean;
+  skipReason?: string;
+  activeSessions: number;
+  shopsWithPageViews: number;
+  billingRecordsGenerated: number;
+  totalPageViews: number;
+  totalAmount: number;
+  chargeResults?: UsageChargeResult[];
+  shopResults?: ShopBillingResult[];
+  // Totals for the date over the current state of usage_records, across all runs
+  currentSummary?: BillingDateSummary;
+  // Shops left out because they are uninstalled, frozen or closed
+  inactiveShops?: number;
+  // Shops whose billing date had not ended yet in their own timezone (USE_SHOP_TIMEZONE)
+  deferredShops?: number;
+  shopStatusChanges?: ShopStatusChange[];
+  discardedSessions?: DiscardedSession[];
+  // Set when charges were fanned out to chargeWorker; the finalizer reports their outcome
+  runId?: string;
+  dispatchedJobs?: number;
+  // Nothing was written or charged; the results show what a real run would have produced
+  dryRun?: boolean;
+  // Another run for the date held the batch_runs lock, so nothing was done
+  lockedByRunId?: string;
+  errorDetails?: {
+    message: string;
+    timestamp: string;
+    stack?: string;
+  };
+}
+
+// One shop's charge, published by processDailyBilling and run by the chargeWorker function.
+// Sessions are not included; the worker looks up the token itself so it never travels over Pub/Sub.
+export interface ChargeJob {
+  run_id: string;
+  billing_date: string;
+  expected_jobs: number;
+  record: BillingRecord;
+}
+
+// Outcome of a ChargeJob, stored in billing.charge_completions and published for the finalizer
+export interface ChargeCompletion {
+  run_id: string;
+  billing_date: string;
+  expected_jobs: number;
+  shop: string;
+  page_views: number;
+  billing_amount: number;
+  status: Exclude<ShopBillingResult['shopifyStatus'], 'held' | 'awaiting_approval' | 'rejected'>;
+  charge_id?: string;
+  error_message?: string;
+  error_category?: ChargeErrorCategory;
+  charged_amount?: number;
+  currency_code?: string;
+  completed_at: string;
+}
+
+export interface ShopifyUsageRecord {
+  id: string;
+  createdAt: string;
+  description: string;
+  idempotencyKey?: string;
+  amount: number;
+  currencyCode: string;
+  // Parsed from the description we send; undefined for records not created by this batch
+  billingDate?: string;
+}
+
+export type ReconciliationFindingType = 'missing_in_shopify' | 'missing_in_bigquery' | 'amount_mismatch';
+
+export interface ReconciliationFinding {
+  run_id: string;
+  shop: string;
+  billing_date?: string;
+  finding_type: ReconciliationFindingType;
+  shopify_charge_id?: string;
+  expected_amount?: number;
+  actual_amount?: number;
+  currency_code?: string;
+  detail?: string;
+  detected_at: string;
+}
+
+// Outcome of a batch entry point, returned over HTTP and sent to the notifiers
+export interface BatchResult {
+  success: boolean;
+  message: string;
+  timestamp: string;
+  error?: string;
+  scheduled?: boolean;
+  testDate?: string;
+  // success may be left out; the report's own success covers it
+  billingDetails?: Omit<DailyBillingResult, 'success'> & { success?: boolean };
+  backfillDetails?: BackfillResult;
+}
+
+export interface ShopFailureDigestEntry {
+  shop: string;
+  billingAmount: number;
+  errorCategory: ChargeErrorCategory;
+  error: string;
+}
+
+// Charges that failed for a billing date, one entry per shop, for customer success follow-up
+export interface ShopFailureDigest {
+  targetDate: string;
+  shops: ShopFailureDigestEntry[];
+}
+
+export type Notification =
+  | { kind: 'batch_result'; result: BatchResult }
+  | { kind: 'reconciliation'; result: ReconciliationResult }
+  | { kind: 'shop_failure_digest'; digest: ShopFailureDigest }
+  // Charges above the approval threshold; Slack targets post them with Approve / Adjust / Reject buttons
+  | { kind: 'approval_request'; records: BillingRecord[] };
+
+// summary: clean runs; oncall: failures, holds and approvals; customer_success: per-shop failure digests
+export type NotificationRoute = 'summary' | 'oncall' | 'customer_success';
+
+export interface ReconciliationResult {
+  success: boolean;
+  runId: string;
+  startDate: string;
+  endDate: string;
+  shopsChecked: number;
+  recordsCompared: number;
+  findings: ReconciliationFinding[];
+  // Shops that could not be reconciled (no session, API failure)
+  shopErrors: Array<{ shop: string; error: string }>;
+}
+
+export interface StatementLine {
+  billing_date: string;
+  page_views: number;
+  pricing_plan_id: string;
+  pricing_tier: number;
+  // Rate of the tier the day ended in; a day that crossed a tier boundary is priced across both
+  rate_per_million: number;
+  raw_amount: number;
+  carry_over_consumed: number;
+  billing_amount: number;
+  // Amount Shopify accepted, in currency_code; 0 for days that were not charged
+  charged_amount: number;
+  currency_code: string;
+  shopify_charge_id?: string;
+  shopify_billing_status?: BillingRecord['shopify_billing_status'];
+}
+
+export interface UsageStatement {
+  shop: string;
+  // YYYY-MM
+  month: string;
+  lines: StatementLine[];
+  total_page_views: number;
+  // USD, before Shopify caps and currency conversion
+  total_billing_amount: number;
+  total_charged_amount: number;
+  currency_code: string;
+  generated_at: string;
+}
+
+export interface BackfillResult {
+  success: boolean;
+  startDate: string;
+  endDate: string;
+  missingDates: string[];
+  results: DailyBillingResult[];
+}
@@ -0,0 +1,12 @@
+import { createHash, timingSafeEqual } from 'crypto';
+
+const digest = (value: string): Buffer => createHash('sha256').update(value).digest();
+
+/**
+ * True when the Authorization header is `Bearer <token>`. Digests are compared so the comparison
+ * is constant-time regardless of length.
+ */
+export function isValidBearerToken(authorization: string | undefined, token: string): boolean {
+  const match = /^Bearer (.+)$/.exec(authorization ?? '');
+  return !!match && timingSafeEqual(digest(match[1]), digest(token));
+}
@@ -0,0 +1,11 @@
+const escapeCsv = (value: unknown): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * RFC 4180 CSV: CRLF line endings, fields quoted only when they contain a comma, quote or line break.
+ */
+export function toCsv(rows: unknown[][]): string {
+  return rows.map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,26 @@
+import dayjs from 'dayjs';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * True for a real calendar date in YYYY-MM-DD form (rejects 2024-02-30 and similar).
+ */
+export function isValidDate(value: unknown): value is string {
+  return typeof value === 'string' &&
+    DATE_PATTERN.test(value) &&
+    dayjs(value).isValid() &&
+    dayjs(value).format('YYYY-MM-DD') === value;
+}
+
+export function assertValidDate(value: unknown, name: string): asserts value is string {
+  if (!isValidDate(value)) {
+    throw new Error(`Invalid ${name}: expected YYYY-MM-DD, got ${JSON.stringify(value)}`);
+  }
+}
+
+/**
+ * True for a calendar month in YYYY-MM form.
+ */
+export function isValidMonth(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}$/.test(value) && isValidDate(`${value}-01`);
+}